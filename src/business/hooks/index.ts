@@ -1,3 +1,5 @@
+export { useRetryingNetworkClient } from './useRetryingNetworkClient';
+
 export {
   useKeysManager,
   type UseKeysManagerConfig,
@@ -14,6 +16,7 @@ export {
   useEndpointsManager,
   type UseEndpointsManagerConfig,
   type UseEndpointsManagerReturn,
+  type UpdateEndpointOptions,
 } from './useEndpointsManager';
 
 export {
@@ -30,9 +33,18 @@ export {
 
 export {
   useEndpointTester,
+  type UseEndpointTesterOptions,
   type UseEndpointTesterReturn,
   type TestResult,
+  type TestRunStatus,
+  type TestRequestOptions,
+  type SuiteRunOptions,
+  type InFlightRequest,
+  type PromptResult,
   type ValidationResult,
+  type OutputValidationResult,
+  type TestCaseReport,
+  type TestSuiteReport,
 } from './useEndpointTester';
 
 export {
@@ -47,5 +59,13 @@ export {
   type Budget,
   type BudgetPeriod,
   type BudgetAlert,
+  type BudgetAlertSeverity,
+  type BudgetThreshold,
+  DEFAULT_BUDGET_THRESHOLDS,
+  type BudgetForecast,
+  type BudgetSpend,
+  type BudgetUsage,
+  type CheckBudgetsOptions,
+  type UseBudgetTrackerOptions,
   type CostBreakdownItem,
 } from './useBudgetTracker';
@@ -15,6 +15,8 @@ import {
   useAnalytics,
 } from '@sudobility/shapeshyft_client';
 import { useAnalyticsStore } from '../stores/analyticsStore';
+import type { RetryPolicy } from '../utils/retry';
+import { useRetryingNetworkClient } from './useRetryingNetworkClient';
 
 /**
  * Configuration for useAnalyticsManager
@@ -26,6 +28,8 @@ export interface UseAnalyticsManagerConfig {
   token: Optional<FirebaseIdToken>;
   /** Auto-fetch on mount when token is available */
   autoFetch?: boolean;
+  /** Retry policy for refresh (GET) requests */
+  retryPolicy?: RetryPolicy;
   /** Query params for filtering */
   params?: UsageAnalyticsQueryParams;
 }
@@ -50,18 +54,23 @@ export interface UseAnalyticsManagerReturn {
 export const useAnalyticsManager = ({
   baseUrl,
   networkClient,
+  retryPolicy,
   userId,
   token,
   autoFetch = true,
   params,
 }: UseAnalyticsManagerConfig): UseAnalyticsManagerReturn => {
+  const networkClientWithRetry = useRetryingNetworkClient(
+    networkClient,
+    retryPolicy
+  );
   const {
     analytics: clientAnalytics,
     isLoading,
     error,
     refresh: clientRefresh,
     clearError,
-  } = useAnalytics(networkClient, baseUrl);
+  } = useAnalytics(networkClientWithRetry, baseUrl);
   const cacheEntry = useAnalyticsStore(
     useCallback(state => state.cache[userId], [userId])
   );
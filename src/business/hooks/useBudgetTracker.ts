@@ -3,18 +3,47 @@
  * Track usage costs and manage budgets
  */
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type {
+  AnalyticsResponse,
+  Optional,
   UsageAggregate,
+  UsageAnalyticsQueryParams,
+  UsageByDate,
   UsageByEndpoint,
 } from '@sudobility/shapeshyft_types';
+import {
+  type BudgetPeriod,
+  type BudgetPeriodOptions,
+  type BudgetPeriodWindow,
+  filterUsageByWindow,
+  getBudgetPeriodWindow,
+  getPeriodQueryParams,
+} from '../utils/budget-periods';
+import {
+  attributeSpend,
+  buildEndpointDirectory,
+  isScopedBudget,
+} from '../utils/budget-attribution';
+import {
+  type ForecastModel,
+  forecastSpend,
+  predictExhaustion,
+  type SpendForecast,
+} from '../utils/spend-forecast';
+import {
+  type BudgetNotificationFailure,
+  type BudgetNotifier,
+  type NotifiedSeverity,
+  notifyBudgetAlerts,
+  selectBudgetNotifications,
+} from '../utils/budget-notifiers';
+import type { BudgetAlert, BudgetAlertSeverity } from '../utils/budget-alerts';
+import { useEndpointsStore } from '../stores/endpointsStore';
 
-/**
- * Budget period type
- */
-export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+export type { BudgetAlert, BudgetAlertSeverity, BudgetPeriod };
 
 /**
  * Budget definition
@@ -24,21 +53,70 @@ export interface Budget {
   name: string;
   limitCents: number;
   period: BudgetPeriod;
+  /** Limit the budget to endpoints in this project */
   projectId?: string;
+  /** Limit the budget to a single endpoint */
+  endpointId?: string;
+  /** Limit the budget to endpoints using this LLM key */
+  llmKeyId?: string;
+  /** Alert thresholds (default: DEFAULT_BUDGET_THRESHOLDS) */
+  thresholds?: BudgetThreshold[];
   createdAt: number;
 }
 
 /**
- * Budget alert
+ * Percent of the limit at which a budget enters a severity
+ */
+export interface BudgetThreshold {
+  percent: number;
+  severity: Exclude<BudgetAlertSeverity, 'projected'>;
+}
+
+/**
+ * Thresholds used by budgets that do not define their own
+ */
+export const DEFAULT_BUDGET_THRESHOLDS: BudgetThreshold[] = [
+  { percent: 75, severity: 'warning' },
+  { percent: 90, severity: 'critical' },
+  { percent: 100, severity: 'exceeded' },
+];
+
+/**
+ * Highest threshold a usage percentage has reached
+ */
+function findCrossedThreshold(
+  percentUsed: number,
+  thresholds: BudgetThreshold[]
+): BudgetThreshold | undefined {
+  return [...thresholds]
+    .sort((a, b) => b.percent - a.percent)
+    .find(threshold => percentUsed >= threshold.percent);
+}
+
+/**
+ * Spend measured for one budget
  */
-export interface BudgetAlert {
+export interface BudgetSpend {
   budgetId: string;
-  budgetName: string;
-  currentSpendCents: number;
-  limitCents: number;
-  percentUsed: number;
-  severity: 'warning' | 'critical' | 'exceeded';
-  message: string;
+  spendCents: number;
+  window: BudgetPeriodWindow;
+  periodScoped: boolean;
+  /** Endpoints with spend whose ownership is unknown */
+  unattributedEndpointIds: string[];
+  unattributedCents: number;
+}
+
+/**
+ * Forecast for one budget's current period
+ */
+export interface BudgetForecast {
+  budgetId: string;
+  spend: BudgetSpend;
+  forecast: SpendForecast;
+  /** When spend reaches the limit, or null if not before the reset */
+  exhaustsAt: number | null;
+  /** The point forecast reaches the limit this period */
+  projectedToExceed: boolean;
 }
 
 /**
@@ -57,6 +135,12 @@ export interface CostBreakdownItem {
  */
 interface BudgetStoreState {
   budgets: Budget[];
+  /**
+   * Highest severity notified per budget in its current period, so
+   * notifiers fire once per step
+   */
+  notifiedSeverities: Record<string, NotifiedSeverity>;
+  setNotifiedSeverities: (state: Record<string, NotifiedSeverity>) => void;
   addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => Budget;
   updateBudget: (id: string, updates: Partial<Budget>) => void;
   removeBudget: (id: string) => void;
@@ -70,6 +154,7 @@ export const useBudgetStore = create<BudgetStoreState>()(
   persist(
     set => ({
       budgets: [],
+      notifiedSeverities: {},
 
       addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => {
         const newBudget: Budget = {
@@ -91,11 +176,20 @@ export const useBudgetStore = create<BudgetStoreState>()(
         })),
 
       removeBudget: (id: string) =>
-        set(state => ({
-          budgets: state.budgets.filter(b => b.id !== id),
-        })),
+        set(state => {
+          const notifiedSeverities = { ...state.notifiedSeverities };
+          delete notifiedSeverities[id];
+          return {
+            budgets: state.budgets.filter(b => b.id !== id),
+            notifiedSeverities,
+          };
+        }),
 
-      clearAll: () => set({ budgets: [] }),
+      setNotifiedSeverities: (
+        notifiedSeverities: Record<string, NotifiedSeverity>
+      ) => set({ notifiedSeverities }),
+
+      clearAll: () => set({ budgets: [], notifiedSeverities: {} }),
     }),
     {
       name: 'shapeshyft-budgets',
@@ -103,6 +197,52 @@ export const useBudgetStore = create<BudgetStoreState>()(
   )
 );
 
+/**
+ * Usage passed to checkBudgets. Include `by_date` (daily rows covering at
+ * least the longest budget period) to measure each budget over its own
+ * window.
+ */
+export interface BudgetUsage {
+  aggregate: UsageAggregate;
+  by_endpoint: UsageByEndpoint[];
+  by_date?: UsageByDate[];
+}
+
+/**
+ * Options for checkBudgets
+ */
+export interface CheckBudgetsOptions {
+  /**
+   * Analytics fetched per budget with getBudgetQueryParams, keyed by budget
+   * ID; preferred over `by_date` when present
+   */
+  periodAnalytics?: Record<string, AnalyticsResponse>;
+  /** Evaluation time (default: now) */
+  now?: number | Date;
+  /**
+   * Daily history per budget ID for forecasting; unscoped budgets fall back
+   * to `by_date`
+   */
+  history?: Record<string, UsageByDate[]>;
+  /** Forecast model (default: 'ewma') */
+  forecastModel?: ForecastModel;
+  /** Alert budgets projected to exceed their limit (default: true) */
+  projectedAlerts?: boolean;
+}
+
+/**
+ * Options for useBudgetTracker
+ */
+export interface UseBudgetTrackerOptions extends BudgetPeriodOptions {
+  /**
+   * Notified when a budget crosses into a more severe state during
+   * checkBudgets; pass a stable array
+   */
+  notifiers?: BudgetNotifier[];
+  /** Called for each notifier that fails to deliver an alert */
+  onNotificationError?: (failure: BudgetNotificationFailure) => void;
+}
+
 /**
  * Return type for useBudgetTracker
  */
@@ -113,10 +253,30 @@ export interface UseBudgetTrackerReturn {
   addBudget: (budget: Omit<Budget, 'id' | 'createdAt'>) => Budget;
   updateBudget: (id: string, updates: Partial<Budget>) => void;
   removeBudget: (id: string) => void;
-  checkBudgets: (analytics: {
-    aggregate: UsageAggregate;
-    by_endpoint: UsageByEndpoint[];
-  }) => BudgetAlert[];
+  checkBudgets: (
+    analytics: BudgetUsage,
+    options?: CheckBudgetsOptions
+  ) => BudgetAlert[];
+  /** Spend counted toward a budget in its current period */
+  getBudgetSpend: (
+    budget: Budget,
+    analytics: BudgetUsage,
+    options?: CheckBudgetsOptions
+  ) => BudgetSpend;
+  /** Forecast a budget's period spend and when it will be exhausted */
+  forecastBudget: (
+    budget: Budget,
+    analytics: BudgetUsage,
+    options?: CheckBudgetsOptions
+  ) => Optional<BudgetForecast>;
+  /** The current period window of a budget, including when it resets */
+  getBudgetWindow: (budget: Budget, now?: number | Date) => BudgetPeriodWindow;
+  /** Analytics query for a budget's current period */
+  getBudgetQueryParams: (
+    budget: Budget,
+    now?: number | Date
+  ) => UsageAnalyticsQueryParams;
+  /** @deprecated Assumes the aggregate is one day's spend; use forecastBudget */
   calculateProjectedCost: (
     currentUsage: UsageAggregate,
     daysRemaining: number
@@ -128,77 +288,238 @@ export interface UseBudgetTrackerReturn {
 /**
  * Hook for tracking usage costs and budgets
  */
-export const useBudgetTracker = (): UseBudgetTrackerReturn => {
+export const useBudgetTracker = (
+  options: UseBudgetTrackerOptions = {}
+): UseBudgetTrackerReturn => {
+  const { timeZone, weekStartsOn, notifiers, onNotificationError } = options;
   const store = useBudgetStore();
+  const endpointsCache = useEndpointsStore(state => state.cache);
   const [alerts, setAlerts] = useState<BudgetAlert[]>([]);
 
+  // Read at check time so inline notifier arrays do not recreate checkBudgets
+  const notifiersRef = useRef(notifiers);
+  notifiersRef.current = notifiers;
+  const onNotificationErrorRef = useRef(onNotificationError);
+  onNotificationErrorRef.current = onNotificationError;
+
+  // Endpoint ownership from every project whose endpoints are cached
+  const endpointDirectory = useMemo(
+    () =>
+      buildEndpointDirectory(
+        Object.values(endpointsCache).flatMap(entry => entry.endpoints)
+      ),
+    [endpointsCache]
+  );
+
+  /**
+   * Current period window of a budget
+   */
+  const getBudgetWindow = useCallback(
+    (budget: Budget, now?: number | Date): BudgetPeriodWindow =>
+      getBudgetPeriodWindow(budget.period, now, { timeZone, weekStartsOn }),
+    [timeZone, weekStartsOn]
+  );
+
   /**
-   * Check budgets against current usage and generate alerts
+   * Analytics query for a budget's current period
+   */
+  const getBudgetQueryParams = useCallback(
+    (budget: Budget, now?: number | Date): UsageAnalyticsQueryParams =>
+      getPeriodQueryParams(getBudgetWindow(budget, now), {
+        project_id: budget.projectId ?? null,
+        endpoint_id: budget.endpointId ?? null,
+      }),
+    [getBudgetWindow]
+  );
+
+  /**
+   * Spend counted toward a budget. Scoped budgets attribute endpoint spend
+   * through the cached endpoints; daily rows only cover unscoped budgets.
+   */
+  const getBudgetSpend = useCallback(
+    (
+      budget: Budget,
+      analytics: BudgetUsage,
+      options: CheckBudgetsOptions = {}
+    ): BudgetSpend => {
+      const window = getBudgetWindow(budget, options.now);
+      const scoped = options.periodAnalytics?.[budget.id];
+      const spend: BudgetSpend = {
+        budgetId: budget.id,
+        spendCents: 0,
+        window,
+        periodScoped: true,
+        unattributedEndpointIds: [],
+        unattributedCents: 0,
+      };
+
+      if (isScopedBudget(budget)) {
+        const attribution = attributeSpend(
+          budget,
+          (scoped ?? analytics).by_endpoint,
+          endpointDirectory
+        );
+        spend.spendCents = attribution.spendCents;
+        spend.unattributedEndpointIds = attribution.unattributed.map(
+          ep => ep.endpoint_id
+        );
+        spend.unattributedCents = attribution.unattributedCents;
+        spend.periodScoped = scoped !== undefined;
+      } else if (scoped) {
+        spend.spendCents = scoped.aggregate.total_estimated_cost_cents;
+      } else if (analytics.by_date) {
+        spend.spendCents = filterUsageByWindow(
+          analytics.by_date,
+          window
+        ).reduce((sum, row) => sum + row.total_estimated_cost_cents, 0);
+      } else {
+        // Total across all endpoints
+        spend.spendCents = analytics.aggregate.total_estimated_cost_cents;
+        spend.periodScoped = false;
+      }
+      return spend;
+    },
+    [getBudgetWindow, endpointDirectory]
+  );
+
+  /**
+   * Forecast a budget from daily history. Returns null when there is no
+   * history for the budget's scope.
+   */
+  const forecastBudget = useCallback(
+    (
+      budget: Budget,
+      analytics: BudgetUsage,
+      options: CheckBudgetsOptions = {}
+    ): Optional<BudgetForecast> => {
+      const history =
+        options.history?.[budget.id] ??
+        (isScopedBudget(budget) ? undefined : analytics.by_date);
+      if (!history || history.length === 0) {
+        return null;
+      }
+      const now = Number(options.now ?? Date.now());
+      const spend = getBudgetSpend(budget, analytics, { ...options, now });
+      const forecast = forecastSpend(history, {
+        now,
+        periodEnd: spend.window.end,
+        spentCents: spend.spendCents,
+        model: options.forecastModel,
+        today: getBudgetPeriodWindow('daily', now, { timeZone }).startDate,
+      });
+      return {
+        budgetId: budget.id,
+        spend,
+        forecast,
+        exhaustsAt: predictExhaustion(
+          budget.limitCents,
+          spend.spendCents,
+          forecast,
+          now,
+          spend.window.end
+        ),
+        projectedToExceed: forecast.projectedCents >= budget.limitCents,
+      };
+    },
+    [getBudgetSpend, timeZone]
+  );
+
+  /**
+   * Check budgets against usage in each budget's current period and
+   * generate alerts
    */
   const checkBudgets = useCallback(
-    (analytics: {
-      aggregate: UsageAggregate;
-      by_endpoint: UsageByEndpoint[];
-    }): BudgetAlert[] => {
+    (
+      analytics: BudgetUsage,
+      options: CheckBudgetsOptions = {}
+    ): BudgetAlert[] => {
       const newAlerts: BudgetAlert[] = [];
-      const { aggregate, by_endpoint } = analytics;
 
       for (const budget of store.budgets) {
-        let currentSpendCents: number;
-
-        if (budget.projectId) {
-          // Filter by project - sum endpoints that match
-          currentSpendCents = by_endpoint
-            .filter(ep => ep.endpoint_id.startsWith(budget.projectId ?? ''))
-            .reduce((sum, ep) => sum + ep.total_estimated_cost_cents, 0);
-        } else {
-          // Total across all endpoints
-          currentSpendCents = aggregate.total_estimated_cost_cents;
-        }
-
+        const spend = getBudgetSpend(budget, analytics, options);
+        const forecast = forecastBudget(budget, analytics, options);
+        const currentSpendCents = spend.spendCents;
+        const periodFields = {
+          period: budget.period,
+          periodStart: spend.window.start,
+          resetsAt: spend.window.end,
+          periodScoped: spend.periodScoped,
+          unattributedCents: spend.unattributedCents,
+          ...(forecast && {
+            projectedSpendCents: forecast.forecast.projectedCents,
+            exhaustsAt: forecast.exhaustsAt,
+          }),
+        };
         const percentUsed = (currentSpendCents / budget.limitCents) * 100;
+        const crossed = findCrossedThreshold(
+          percentUsed,
+          budget.thresholds ?? DEFAULT_BUDGET_THRESHOLDS
+        );
 
-        if (percentUsed >= 100) {
+        if (crossed) {
           newAlerts.push({
             budgetId: budget.id,
             budgetName: budget.name,
             currentSpendCents,
             limitCents: budget.limitCents,
             percentUsed,
-            severity: 'exceeded',
-            message: `Budget "${budget.name}" exceeded: $${(currentSpendCents / 100).toFixed(2)} of $${(budget.limitCents / 100).toFixed(2)} (${percentUsed.toFixed(1)}%)`,
+            severity: crossed.severity,
+            threshold: crossed.percent,
+            ...periodFields,
+            message: `Budget "${budget.name}" ${crossed.severity}: $${(currentSpendCents / 100).toFixed(2)} of $${(budget.limitCents / 100).toFixed(2)} (${percentUsed.toFixed(1)}%)`,
           });
-        } else if (percentUsed >= 90) {
+        } else if (
+          forecast?.projectedToExceed &&
+          (options.projectedAlerts ?? true)
+        ) {
           newAlerts.push({
             budgetId: budget.id,
             budgetName: budget.name,
             currentSpendCents,
             limitCents: budget.limitCents,
             percentUsed,
-            severity: 'critical',
-            message: `Budget "${budget.name}" critical: $${(currentSpendCents / 100).toFixed(2)} of $${(budget.limitCents / 100).toFixed(2)} (${percentUsed.toFixed(1)}%)`,
-          });
-        } else if (percentUsed >= 75) {
-          newAlerts.push({
-            budgetId: budget.id,
-            budgetName: budget.name,
-            currentSpendCents,
-            limitCents: budget.limitCents,
-            percentUsed,
-            severity: 'warning',
-            message: `Budget "${budget.name}" warning: $${(currentSpendCents / 100).toFixed(2)} of $${(budget.limitCents / 100).toFixed(2)} (${percentUsed.toFixed(1)}%)`,
+            severity: 'projected',
+            ...periodFields,
+            message: `Budget "${budget.name}" projected to exceed: $${(forecast.forecast.projectedCents / 100).toFixed(2)} expected of $${(budget.limitCents / 100).toFixed(2)} by the end of the period`,
           });
         }
       }
 
       setAlerts(newAlerts);
+      const activeNotifiers = notifiersRef.current;
+      if (activeNotifiers && activeNotifiers.length > 0) {
+        const { notifiedSeverities, setNotifiedSeverities } =
+          useBudgetStore.getState();
+        const { notified, state } = selectBudgetNotifications(
+          newAlerts,
+          notifiedSeverities
+        );
+        // Record before delivering so overlapping checks do not notify twice
+        setNotifiedSeverities(state);
+        if (notified.length > 0) {
+          notifyBudgetAlerts(notified, activeNotifiers)
+            .then(result =>
+              result.failures.forEach(failure =>
+                onNotificationErrorRef.current?.(failure)
+              )
+            )
+            // A throwing error callback reaches the host app's global
+            // error handling instead of becoming an unhandled rejection
+            .catch(error =>
+              setTimeout(() => {
+                throw error;
+              })
+            );
+        }
+      }
       return newAlerts;
     },
-    [store.budgets]
+    [store.budgets, getBudgetSpend, forecastBudget]
   );
 
   /**
    * Calculate projected cost based on current usage rate
+   * @deprecated Use forecastBudget, which fits the daily history
    */
   const calculateProjectedCost = useCallback(
     (currentUsage: UsageAggregate, daysRemaining: number): number => {
@@ -250,6 +571,10 @@ export const useBudgetTracker = (): UseBudgetTrackerReturn => {
       updateBudget: store.updateBudget,
       removeBudget: store.removeBudget,
       checkBudgets,
+      getBudgetSpend,
+      forecastBudget,
+      getBudgetWindow,
+      getBudgetQueryParams,
       calculateProjectedCost,
       getCostBreakdown,
       clearAlerts,
@@ -261,6 +586,10 @@ export const useBudgetTracker = (): UseBudgetTrackerReturn => {
       store.removeBudget,
       alerts,
       checkBudgets,
+      getBudgetSpend,
+      forecastBudget,
+      getBudgetWindow,
+      getBudgetQueryParams,
       calculateProjectedCost,
       getCostBreakdown,
       clearAlerts,
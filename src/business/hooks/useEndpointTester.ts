@@ -3,15 +3,87 @@
  * Test endpoints with sample data and validate input/output
  */
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useMemo, useRef, useState } from 'react';
 import type {
   Endpoint,
   HttpMethod,
   JsonSchema,
+  LlmApiKeySafe,
   NetworkClient,
   Optional,
 } from '@sudobility/shapeshyft_types';
 import { useAiExecute } from '@sudobility/shapeshyft_client';
+import {
+  escapeJsonPointer,
+  formatSchemaError,
+  type SchemaValidationError,
+  validateJsonSchema,
+} from '../utils/json-schema-validator';
+import {
+  type AssertionResult,
+  evaluateAssertions,
+  extractModelOutput,
+  isTestPassing,
+} from '../utils/test-assertions';
+import {
+  type LoadTestOptions,
+  type LoadTestReport,
+  runLoadTest,
+} from '../utils/load-test';
+import {
+  createAbortRegistry,
+  RequestCancelledError,
+  RequestTimeoutError,
+  runWithAbort,
+} from '../utils/abortable';
+import {
+  createResponseTracker,
+  executeWithRetry,
+  type HttpResponseInfo,
+  type RetryAttempt,
+  type RetryPolicy,
+} from '../utils/retry';
+import {
+  DEFAULT_MODEL_PRICING,
+  estimateCostCents,
+  findModelPricing,
+  type ModelRef,
+  type PricingCatalog,
+} from '../utils/pricing';
+import {
+  generateSamples,
+  generateSampleValue,
+  type SampleOptions,
+} from '../utils/sample-input';
+import {
+  type FuzzOptions,
+  type FuzzReport,
+  generateFuzzCases,
+  runFuzzCases,
+} from '../utils/schema-fuzzer';
+import {
+  estimateTokenUsage,
+  type TokenEstimate,
+  type TokenEstimateRequest,
+  type TokenEstimatorOptions,
+} from '../utils/token-estimator';
+import type { TestSuite } from '../stores/testSuitesStore';
+import { useKeysStore } from '../stores/keysStore';
+import {
+  filterTestHistory,
+  type TestHistoryFilter,
+  useTestHistoryStore,
+} from '../stores/testHistoryStore';
+
+/**
+ * Outcome of a test run
+ */
+export type TestRunStatus =
+  | 'success'
+  | 'failed'
+  | 'invalid_input'
+  | 'cancelled'
+  | 'timed_out';
 
 /**
  * Test result type
@@ -23,11 +95,18 @@ export interface TestResult {
   input: unknown;
   output: unknown;
   success: boolean;
+  status: TestRunStatus;
   error: Optional<string>;
   timestamp: number;
   latencyMs: Optional<number>;
   tokensInput: Optional<number>;
   tokensOutput: Optional<number>;
+  /** Response conformance to the endpoint's output_schema (null if not checked) */
+  outputValidation: Optional<OutputValidationResult>;
+  /** Every execution attempt, including retries (empty if never executed) */
+  attempts: RetryAttempt[];
+  /** Estimated cost of the run in cents (null if unknown) */
+  estimatedCostCents: Optional<number>;
 }
 
 /**
@@ -36,200 +115,263 @@ export interface TestResult {
 export interface ValidationResult {
   valid: boolean;
   errors: string[];
+  /** Structured errors with JSON Pointer paths, for field highlighting */
+  issues: SchemaValidationError[];
+}
+
+/**
+ * Output validation result
+ */
+export interface OutputValidationResult extends ValidationResult {
+  /** JSON Pointers of required output fields that were missing */
+  missingRequired: string[];
+}
+
+/**
+ * Per-call cancellation and timeout options
+ */
+export interface TestRequestOptions {
+  /** ID to track the request under (generated if omitted) */
+  id?: string;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+  /**
+   * Fails the request as timed out after this many ms. The request itself is
+   * not aborted, so timed-out runs are never retried.
+   */
+  timeoutMs?: number;
+  /** Retry transient execution failures (test runs only) */
+  retry?: RetryPolicy;
+  /**
+   * Model the endpoint runs on, used to price the run from the catalog.
+   * Defaults to the provider of the endpoint's LLM key when that key is
+   * cached, priced at the provider's '*' entry; without either, the
+   * server-reported estimate is used.
+   */
+  model?: ModelRef;
+}
+
+/**
+ * Options applied to every case of a suite run
+ */
+export type SuiteRunOptions = Omit<TestRequestOptions, 'id'>;
+
+/**
+ * A request currently in flight
+ */
+export interface InFlightRequest {
+  id: string;
+  kind: 'test' | 'prompt';
+  endpointName: string;
+  startedAt: number;
+}
+
+/**
+ * Result of fetching an endpoint prompt
+ */
+export interface PromptResult {
+  success: boolean;
+  status: Exclude<TestRunStatus, 'invalid_input'>;
+  prompt?: string;
+  error?: string;
+}
+
+/**
+ * Outcome of a single case in a suite run
+ */
+export interface TestCaseReport {
+  caseId: string;
+  caseName: string;
+  /**
+   * True when the call succeeded, the output matched its schema and every
+   * assertion passed
+   */
+  passed: boolean;
+  result: TestResult;
+  assertions: AssertionResult[];
+}
+
+/**
+ * Outcome of running a whole test suite
+ */
+export interface TestSuiteReport {
+  suiteId: string;
+  suiteName: string;
+  endpointId: string;
+  startedAt: number;
+  finishedAt: number;
+  passed: number;
+  failed: number;
+  total: number;
+  cases: TestCaseReport[];
+}
+
+/**
+ * Options for useEndpointTester
+ */
+export interface UseEndpointTesterOptions {
+  /** Pricing used for cost estimates (default: DEFAULT_MODEL_PRICING) */
+  pricingCatalog?: PricingCatalog;
 }
 
 /**
  * Return type for useEndpointTester
  */
 export interface UseEndpointTesterReturn {
+  /** Persisted test history across all endpoints, newest first */
   testResults: TestResult[];
+  /** True while any request is in flight */
   isLoading: boolean;
+  inFlight: InFlightRequest[];
   error: Optional<string>;
+  /** Total estimated cost of runs made through this hook instance, in cents */
+  sessionCostCents: number;
 
   testEndpoint: (
     organizationPath: string,
     projectName: string,
     endpoint: Endpoint,
-    sampleInput: unknown
+    sampleInput: unknown,
+    options?: TestRequestOptions
   ) => Promise<TestResult>;
+  runSuite: (
+    organizationPath: string,
+    projectName: string,
+    endpoint: Endpoint,
+    suite: TestSuite,
+    options?: SuiteRunOptions
+  ) => Promise<TestSuiteReport>;
+  loadTestEndpoint: (
+    organizationPath: string,
+    projectName: string,
+    endpoint: Endpoint,
+    options: LoadTestOptions
+  ) => Promise<LoadTestReport>;
+  fuzzEndpoint: (
+    organizationPath: string,
+    projectName: string,
+    endpoint: Endpoint,
+    options?: FuzzOptions & { signal?: AbortSignal }
+  ) => Promise<FuzzReport>;
   getPrompt: (
     organizationPath: string,
     projectName: string,
     endpointName: string,
-    input: unknown
-  ) => Promise<{ success: boolean; prompt?: string; error?: string }>;
-  generateSampleInput: (inputSchema: JsonSchema | null) => unknown;
+    input: unknown,
+    options?: TestRequestOptions
+  ) => Promise<PromptResult>;
+  cancelRequest: (id: string) => void;
+  cancelAll: () => void;
+  generateSampleInput: (
+    inputSchema: JsonSchema | null,
+    options?: SampleOptions
+  ) => unknown;
+  generateSampleInputs: (
+    inputSchema: JsonSchema | null,
+    count: number,
+    options?: SampleOptions
+  ) => unknown[];
+  /** Estimate tokens and cost for a request offline, priced with pricingCatalog */
+  estimateUsage: (
+    request: TokenEstimateRequest,
+    options?: Pick<TokenEstimatorOptions, 'tokenCounters'>
+  ) => TokenEstimate;
   validateInput: (
     input: unknown,
     schema: JsonSchema | null
   ) => ValidationResult;
-  clearResults: () => void;
+  validateOutput: (
+    output: unknown,
+    schema: JsonSchema | null
+  ) => Optional<OutputValidationResult>;
+  queryHistory: (filter?: TestHistoryFilter) => TestResult[];
+  clearResults: (endpointId?: string) => void;
+  resetSessionCost: () => void;
 }
 
 /**
- * Generate a sample value for a JSON Schema type
+ * Validate an endpoint response against its output schema
  */
-function generateSampleValue(schema: JsonSchema): unknown {
-  switch (schema.type) {
-    case 'string':
-      if (schema.enum && Array.isArray(schema.enum)) {
-        return schema.enum[0];
-      }
-      if (schema.default !== undefined) {
-        return schema.default;
-      }
-      return 'sample string';
-
-    case 'number':
-    case 'integer':
-      if (schema.default !== undefined) {
-        return schema.default;
-      }
-      if (schema.minimum !== undefined) {
-        return schema.minimum;
-      }
-      return 0;
-
-    case 'boolean':
-      if (schema.default !== undefined) {
-        return schema.default;
-      }
-      return true;
-
-    case 'array':
-      if (schema.items) {
-        return [generateSampleValue(schema.items)];
-      }
-      return [];
+function validateOutputValue(
+  output: unknown,
+  schema: JsonSchema | null
+): Optional<OutputValidationResult> {
+  if (!schema) {
+    return null;
+  }
+  const result = validateJsonSchema(output, schema);
+  return {
+    valid: result.valid,
+    errors: result.errors.map(formatSchemaError),
+    issues: result.errors,
+    missingRequired: result.errors
+      .filter(e => e.keyword === 'required')
+      .map(e => `${e.path}/${escapeJsonPointer(String(e.expected))}`),
+  };
+}
 
-    case 'object':
-      if (schema.properties) {
-        const obj: Record<string, unknown> = {};
-        for (const [key, propSchema] of Object.entries(schema.properties)) {
-          obj[key] = generateSampleValue(propSchema as JsonSchema);
-        }
-        return obj;
-      }
-      return {};
+/**
+ * Generate a request ID with the given prefix
+ */
+function makeRequestId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
 
-    default:
-      return null;
+/**
+ * Map an error from a request to its run status
+ */
+function statusForError(err: unknown): TestRunStatus {
+  if (err instanceof RequestTimeoutError) {
+    return 'timed_out';
   }
+  if (err instanceof RequestCancelledError) {
+    return 'cancelled';
+  }
+  return 'failed';
 }
 
 /**
- * Validate a value against a JSON Schema (basic validation)
+ * Model to price a run with: the caller's, else the provider of the
+ * endpoint's LLM key from the keys cache
  */
-function validateValue(
-  value: unknown,
-  schema: JsonSchema,
-  path: string
-): string[] {
-  const errors: string[] = [];
-
-  if (value === null || value === undefined) {
-    return errors;
+function resolveModelRef(
+  model: Optional<ModelRef>,
+  llmKeyId: string,
+  keysCache: Record<string, { keys: LlmApiKeySafe[] }>
+): Optional<ModelRef> {
+  if (model) {
+    return model;
   }
-
-  switch (schema.type) {
-    case 'string':
-      if (typeof value !== 'string') {
-        errors.push(`${path}: expected string, got ${typeof value}`);
-      } else {
-        if (schema.minLength !== undefined && value.length < schema.minLength) {
-          errors.push(
-            `${path}: string length ${value.length} is less than minLength ${schema.minLength}`
-          );
-        }
-        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
-          errors.push(
-            `${path}: string length ${value.length} exceeds maxLength ${schema.maxLength}`
-          );
-        }
-        if (schema.enum && !schema.enum.includes(value)) {
-          errors.push(
-            `${path}: value "${value}" is not in enum [${schema.enum.join(', ')}]`
-          );
-        }
-      }
-      break;
-
-    case 'number':
-    case 'integer':
-      if (typeof value !== 'number') {
-        errors.push(`${path}: expected number, got ${typeof value}`);
-      } else {
-        if (schema.type === 'integer' && !Number.isInteger(value)) {
-          errors.push(`${path}: expected integer, got float`);
-        }
-        if (schema.minimum !== undefined && value < schema.minimum) {
-          errors.push(
-            `${path}: value ${value} is less than minimum ${schema.minimum}`
-          );
-        }
-        if (schema.maximum !== undefined && value > schema.maximum) {
-          errors.push(
-            `${path}: value ${value} exceeds maximum ${schema.maximum}`
-          );
-        }
-      }
-      break;
-
-    case 'boolean':
-      if (typeof value !== 'boolean') {
-        errors.push(`${path}: expected boolean, got ${typeof value}`);
-      }
-      break;
-
-    case 'array':
-      if (!Array.isArray(value)) {
-        errors.push(`${path}: expected array, got ${typeof value}`);
-      } else if (schema.items) {
-        value.forEach((item, index) => {
-          errors.push(
-            ...validateValue(
-              item,
-              schema.items as JsonSchema,
-              `${path}[${index}]`
-            )
-          );
-        });
-      }
-      break;
-
-    case 'object':
-      if (typeof value !== 'object' || Array.isArray(value)) {
-        errors.push(`${path}: expected object, got ${typeof value}`);
-      } else if (schema.properties) {
-        const obj = value as Record<string, unknown>;
-
-        // Check required properties
-        if (schema.required) {
-          for (const reqKey of schema.required) {
-            if (!(reqKey in obj)) {
-              errors.push(`${path}: missing required property "${reqKey}"`);
-            }
-          }
-        }
-
-        // Validate each property
-        for (const [key, propValue] of Object.entries(obj)) {
-          const propSchema = schema.properties[key];
-          if (propSchema) {
-            errors.push(
-              ...validateValue(
-                propValue,
-                propSchema as JsonSchema,
-                `${path}.${key}`
-              )
-            );
-          }
-        }
-      }
-      break;
+  for (const entry of Object.values(keysCache)) {
+    const key = entry.keys.find(k => k.uuid === llmKeyId);
+    if (key) {
+      return { provider: key.provider };
+    }
   }
+  return null;
+}
 
-  return errors;
+/**
+ * Estimate the cost of a run from the pricing catalog, falling back to the
+ * server-reported estimate when the model is unknown
+ */
+function computeRunCost(
+  catalog: PricingCatalog,
+  model: Optional<ModelRef>,
+  tokensInput: Optional<number>,
+  tokensOutput: Optional<number>,
+  data: unknown
+): Optional<number> {
+  const pricing = model ? findModelPricing(catalog, model) : undefined;
+  if (pricing && (tokensInput != null || tokensOutput != null)) {
+    return estimateCostCents(pricing, tokensInput ?? 0, tokensOutput ?? 0);
+  }
+  const serverCost =
+    data && typeof data === 'object' && 'usage' in data
+      ? (data as { usage: { estimated_cost_cents?: number } }).usage
+          .estimated_cost_cents
+      : undefined;
+  return typeof serverCost === 'number' ? serverCost : null;
 }
 
 /**
@@ -237,44 +379,131 @@ function validateValue(
  */
 export const useEndpointTester = (
   networkClient: NetworkClient,
-  baseUrl: string
+  baseUrl: string,
+  options: UseEndpointTesterOptions = {}
 ): UseEndpointTesterReturn => {
-  const aiExecute = useAiExecute(networkClient, baseUrl);
+  const pricingCatalog = options.pricingCatalog ?? DEFAULT_MODEL_PRICING;
+  // Execution failures only surface as strings; track responses so retries
+  // can go by status code and Retry-After
+  const responseTracker = useMemo(
+    () => createResponseTracker(networkClient),
+    [networkClient]
+  );
+  const aiExecute = useAiExecute(responseTracker.networkClient, baseUrl);
 
-  const [testResults, setTestResults] = useState<TestResult[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+  const keysCache = useKeysStore(state => state.cache);
+  const history = useTestHistoryStore(state => state.history);
+  const addResult = useTestHistoryStore(state => state.addResult);
+  const clearEndpointHistory = useTestHistoryStore(
+    state => state.clearEndpointHistory
+  );
+  const clearHistory = useTestHistoryStore(state => state.clearAll);
+  const testResults = useMemo(() => filterTestHistory(history), [history]);
+  const [inFlightById, setInFlightById] = useState<
+    Record<string, InFlightRequest>
+  >({});
+  const abortRegistryRef = useRef(createAbortRegistry());
   const [error, setError] = useState<Optional<string>>(null);
+  const [sessionCostCents, setSessionCostCents] = useState(0);
+
+  const inFlight = useMemo(() => Object.values(inFlightById), [inFlightById]);
+  const isLoading = inFlight.length > 0;
+
+  /**
+   * Register an in-flight request and return its abort signal
+   */
+  const beginRequest = useCallback(
+    (request: InFlightRequest, externalSignal?: AbortSignal): AbortSignal => {
+      const signal = abortRegistryRef.current.begin(request.id, externalSignal);
+      setInFlightById(prev => ({ ...prev, [request.id]: request }));
+      return signal;
+    },
+    []
+  );
+
+  /**
+   * Unregister a finished request
+   */
+  const endRequest = useCallback((id: string) => {
+    abortRegistryRef.current.end(id);
+    setInFlightById(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
 
   /**
    * Generate sample input from schema
    */
   const generateSampleInput = useCallback(
-    (inputSchema: JsonSchema | null): unknown => {
+    (inputSchema: JsonSchema | null, options?: SampleOptions): unknown => {
       if (!inputSchema) {
         return {};
       }
-      return generateSampleValue(inputSchema);
+      return generateSampleValue(inputSchema, options);
     },
     []
   );
 
+  /**
+   * Generate several varied sample inputs from schema
+   */
+  const generateSampleInputs = useCallback(
+    (
+      inputSchema: JsonSchema | null,
+      count: number,
+      options?: SampleOptions
+    ): unknown[] => {
+      if (!inputSchema) {
+        return Array.from({ length: Math.max(0, count) }, () => ({}));
+      }
+      return generateSamples(inputSchema, count, options);
+    },
+    []
+  );
+
+  /**
+   * Estimate usage for a request without calling the API
+   */
+  const estimateUsage = useCallback(
+    (
+      request: TokenEstimateRequest,
+      options?: Pick<TokenEstimatorOptions, 'tokenCounters'>
+    ): TokenEstimate =>
+      estimateTokenUsage(request, { ...options, pricingCatalog }),
+    [pricingCatalog]
+  );
+
   /**
    * Validate input against schema
    */
   const validateInput = useCallback(
     (input: unknown, schema: JsonSchema | null): ValidationResult => {
       if (!schema) {
-        return { valid: true, errors: [] };
+        return { valid: true, errors: [], issues: [] };
       }
-      const errors = validateValue(input, schema, 'root');
+      const result = validateJsonSchema(input, schema);
       return {
-        valid: errors.length === 0,
-        errors,
+        valid: result.valid,
+        errors: result.errors.map(formatSchemaError),
+        issues: result.errors,
       };
     },
     []
   );
 
+  /**
+   * Validate an endpoint response against its output schema
+   */
+  const validateOutput = useCallback(
+    (
+      output: unknown,
+      schema: JsonSchema | null
+    ): Optional<OutputValidationResult> => validateOutputValue(output, schema),
+    []
+  );
+
   /**
    * Test an endpoint with sample input
    */
@@ -283,95 +512,272 @@ export const useEndpointTester = (
       organizationPath: string,
       projectName: string,
       endpoint: Endpoint,
-      sampleInput: unknown
+      sampleInput: unknown,
+      options: TestRequestOptions = {}
     ): Promise<TestResult> => {
-      setIsLoading(true);
       setError(null);
 
       const startTime = Date.now();
-      const testId = `test-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      const testId = options.id ?? makeRequestId('test');
+      const baseResult = {
+        id: testId,
+        endpointId: endpoint.uuid,
+        endpointName: endpoint.endpoint_name,
+        input: sampleInput,
+      };
 
-      try {
-        // Validate input first
-        const validation = validateInput(sampleInput, endpoint.input_schema);
-        if (!validation.valid) {
-          const result: TestResult = {
-            id: testId,
-            endpointId: endpoint.uuid,
-            endpointName: endpoint.endpoint_name,
-            input: sampleInput,
-            output: null,
-            success: false,
-            error: `Input validation failed: ${validation.errors.join(', ')}`,
-            timestamp: Date.now(),
-            latencyMs: null,
-            tokensInput: null,
-            tokensOutput: null,
-          };
-          setTestResults(prev => [result, ...prev]);
-          return result;
-        }
+      // Validate input first
+      const validation = validateInput(sampleInput, endpoint.input_schema);
+      if (!validation.valid) {
+        const result: TestResult = {
+          ...baseResult,
+          output: null,
+          success: false,
+          status: 'invalid_input',
+          error: `Input validation failed: ${validation.errors.join(', ')}`,
+          timestamp: Date.now(),
+          latencyMs: null,
+          tokensInput: null,
+          tokensOutput: null,
+          outputValidation: null,
+          attempts: [],
+          estimatedCostCents: null,
+        };
+        addResult(result);
+        return result;
+      }
 
-        // Execute the endpoint
-        const response = await aiExecute.execute(
-          organizationPath,
-          projectName,
-          endpoint.endpoint_name,
-          sampleInput,
-          endpoint.http_method as HttpMethod
+      const signal = beginRequest(
+        {
+          id: testId,
+          kind: 'test',
+          endpointName: endpoint.endpoint_name,
+          startedAt: startTime,
+        },
+        options.signal
+      );
+
+      const attempts: RetryAttempt[] = [];
+      const httpResponses = new Map<number, HttpResponseInfo>();
+
+      try {
+        // Execute the endpoint, retrying only when a policy is given
+        const response = await executeWithRetry(
+          attempt =>
+            runWithAbort(
+              () =>
+                responseTracker.track(
+                  () =>
+                    aiExecute.execute(
+                      organizationPath,
+                      projectName,
+                      endpoint.endpoint_name,
+                      sampleInput,
+                      endpoint.http_method as HttpMethod
+                    ),
+                  info => httpResponses.set(attempt, info)
+                ),
+              { signal, timeoutMs: options.timeoutMs }
+            ),
+          options.retry ?? { maxAttempts: 1 },
+          {
+            signal,
+            onAttempt: attempt => attempts.push(attempt),
+            responseFor: attempt => httpResponses.get(attempt),
+          }
         );
 
         const latencyMs = Date.now() - startTime;
+        const tokensInput =
+          response.success && response.data && 'usage' in response.data
+            ? (response.data as { usage: { tokens_input: number } }).usage
+                .tokens_input
+            : null;
+        const tokensOutput =
+          response.success && response.data && 'usage' in response.data
+            ? (response.data as { usage: { tokens_output: number } }).usage
+                .tokens_output
+            : null;
+        const estimatedCostCents = response.success
+          ? computeRunCost(
+              pricingCatalog,
+              resolveModelRef(options.model, endpoint.llm_key_id, keysCache),
+              tokensInput,
+              tokensOutput,
+              response.data
+            )
+          : null;
+        if (estimatedCostCents) {
+          setSessionCostCents(prev => prev + estimatedCostCents);
+        }
 
         const result: TestResult = {
-          id: testId,
-          endpointId: endpoint.uuid,
-          endpointName: endpoint.endpoint_name,
-          input: sampleInput,
+          ...baseResult,
           output: response.success ? response.data : null,
           success: response.success,
+          status: response.success ? 'success' : 'failed',
           error: response.error ?? null,
           timestamp: Date.now(),
           latencyMs,
-          tokensInput:
-            response.success && response.data && 'usage' in response.data
-              ? (response.data as { usage: { tokens_input: number } }).usage
-                  .tokens_input
-              : null,
-          tokensOutput:
-            response.success && response.data && 'usage' in response.data
-              ? (response.data as { usage: { tokens_output: number } }).usage
-                  .tokens_output
-              : null,
+          tokensInput,
+          tokensOutput,
+          outputValidation: response.success
+            ? validateOutput(
+                extractModelOutput(response.data),
+                endpoint.output_schema
+              )
+            : null,
+          attempts,
+          estimatedCostCents,
         };
 
-        setTestResults(prev => [result, ...prev]);
+        addResult(result);
         return result;
       } catch (err) {
+        const status = statusForError(err);
         const errorMessage = err instanceof Error ? err.message : 'Test failed';
-        setError(errorMessage);
+        if (status === 'failed') {
+          setError(errorMessage);
+        }
 
         const result: TestResult = {
-          id: testId,
-          endpointId: endpoint.uuid,
-          endpointName: endpoint.endpoint_name,
-          input: sampleInput,
+          ...baseResult,
           output: null,
           success: false,
+          status,
           error: errorMessage,
           timestamp: Date.now(),
           latencyMs: Date.now() - startTime,
           tokensInput: null,
           tokensOutput: null,
+          outputValidation: null,
+          attempts,
+          estimatedCostCents: null,
         };
 
-        setTestResults(prev => [result, ...prev]);
+        addResult(result);
         return result;
       } finally {
-        setIsLoading(false);
+        endRequest(testId);
+      }
+    },
+    [
+      aiExecute,
+      responseTracker,
+      validateInput,
+      validateOutput,
+      addResult,
+      beginRequest,
+      endRequest,
+      pricingCatalog,
+      keysCache,
+    ]
+  );
+
+  /**
+   * Run every case in a suite and evaluate its assertions
+   */
+  const runSuite = useCallback(
+    async (
+      organizationPath: string,
+      projectName: string,
+      endpoint: Endpoint,
+      suite: TestSuite,
+      options: SuiteRunOptions = {}
+    ): Promise<TestSuiteReport> => {
+      const startedAt = Date.now();
+      const cases: TestCaseReport[] = [];
+
+      // Run sequentially so latency assertions are not skewed by contention
+      for (const testCase of suite.cases) {
+        if (options.signal?.aborted) {
+          break;
+        }
+        const result = await testEndpoint(
+          organizationPath,
+          projectName,
+          endpoint,
+          testCase.input,
+          options
+        );
+        const assertions = evaluateAssertions(result, testCase.assertions);
+        cases.push({
+          caseId: testCase.id,
+          caseName: testCase.name,
+          passed: isTestPassing(result, assertions),
+          result,
+          assertions,
+        });
       }
+
+      const passed = cases.filter(c => c.passed).length;
+      return {
+        suiteId: suite.id,
+        suiteName: suite.name,
+        endpointId: endpoint.uuid,
+        startedAt,
+        finishedAt: Date.now(),
+        passed,
+        failed: cases.length - passed,
+        total: cases.length,
+        cases,
+      };
     },
-    [aiExecute, validateInput]
+    [testEndpoint]
+  );
+
+  /**
+   * Load test an endpoint; results are not added to test history
+   */
+  const loadTestEndpoint = useCallback(
+    (
+      organizationPath: string,
+      projectName: string,
+      endpoint: Endpoint,
+      options: LoadTestOptions
+    ): Promise<LoadTestReport> =>
+      runLoadTest(
+        input =>
+          aiExecute.execute(
+            organizationPath,
+            projectName,
+            endpoint.endpoint_name,
+            input,
+            endpoint.http_method as HttpMethod
+          ),
+        options
+      ),
+    [aiExecute]
+  );
+
+  /**
+   * Send schema-derived boundary and invalid inputs, bypassing client-side
+   * validation, and report whether the server enforced the contract
+   */
+  const fuzzEndpoint = useCallback(
+    (
+      organizationPath: string,
+      projectName: string,
+      endpoint: Endpoint,
+      options: FuzzOptions & { signal?: AbortSignal } = {}
+    ): Promise<FuzzReport> => {
+      const cases = endpoint.input_schema
+        ? generateFuzzCases(endpoint.input_schema, options)
+        : [];
+      return runFuzzCases(
+        input =>
+          aiExecute.execute(
+            organizationPath,
+            projectName,
+            endpoint.endpoint_name,
+            input,
+            endpoint.http_method as HttpMethod
+          ),
+        cases,
+        options.signal
+      );
+    },
+    [aiExecute]
   );
 
   /**
@@ -382,67 +788,151 @@ export const useEndpointTester = (
       organizationPath: string,
       projectName: string,
       endpointName: string,
-      input: unknown
-    ): Promise<{ success: boolean; prompt?: string; error?: string }> => {
-      setIsLoading(true);
+      input: unknown,
+      options: TestRequestOptions = {}
+    ): Promise<PromptResult> => {
       setError(null);
 
-      try {
-        const response = await aiExecute.getPrompt(
-          organizationPath,
-          projectName,
+      const requestId = options.id ?? makeRequestId('prompt');
+      const signal = beginRequest(
+        {
+          id: requestId,
+          kind: 'prompt',
           endpointName,
-          input
+          startedAt: Date.now(),
+        },
+        options.signal
+      );
+
+      try {
+        const response = await runWithAbort(
+          () =>
+            aiExecute.getPrompt(
+              organizationPath,
+              projectName,
+              endpointName,
+              input
+            ),
+          { signal, timeoutMs: options.timeoutMs }
         );
 
         if (response.success && response.data) {
-          return { success: true, prompt: response.data.prompt };
+          return {
+            success: true,
+            status: 'success',
+            prompt: response.data.prompt,
+          };
         } else {
           return {
             success: false,
+            status: 'failed',
             error: response.error || 'Failed to get prompt',
           };
         }
       } catch (err) {
+        const status = statusForError(err) as PromptResult['status'];
         const errorMessage =
           err instanceof Error ? err.message : 'Failed to get prompt';
-        setError(errorMessage);
-        return { success: false, error: errorMessage };
+        if (status === 'failed') {
+          setError(errorMessage);
+        }
+        return { success: false, status, error: errorMessage };
       } finally {
-        setIsLoading(false);
+        endRequest(requestId);
       }
     },
-    [aiExecute]
+    [aiExecute, beginRequest, endRequest]
+  );
+
+  /**
+   * Cancel an in-flight test or prompt request by ID
+   */
+  const cancelRequest = useCallback((id: string) => {
+    abortRegistryRef.current.cancel(id);
+  }, []);
+
+  /**
+   * Cancel every in-flight request
+   */
+  const cancelAll = useCallback(() => {
+    abortRegistryRef.current.cancelAll();
+  }, []);
+
+  /**
+   * Query persisted test history
+   */
+  const queryHistory = useCallback(
+    (filter?: TestHistoryFilter): TestResult[] =>
+      filterTestHistory(history, filter),
+    [history]
+  );
+
+  /**
+   * Clear test history for one endpoint, or all history
+   */
+  const clearResults = useCallback(
+    (endpointId?: string) => {
+      if (endpointId) {
+        clearEndpointHistory(endpointId);
+      } else {
+        clearHistory();
+      }
+      setError(null);
+    },
+    [clearEndpointHistory, clearHistory]
   );
 
   /**
-   * Clear all test results
+   * Reset the session cost total
    */
-  const clearResults = useCallback(() => {
-    setTestResults([]);
-    setError(null);
+  const resetSessionCost = useCallback(() => {
+    setSessionCostCents(0);
   }, []);
 
   return useMemo(
     () => ({
       testResults,
       isLoading,
+      inFlight,
       error,
+      sessionCostCents,
       testEndpoint,
+      runSuite,
+      loadTestEndpoint,
+      fuzzEndpoint,
       getPrompt,
+      cancelRequest,
+      cancelAll,
       generateSampleInput,
+      generateSampleInputs,
+      estimateUsage,
       validateInput,
+      validateOutput,
+      queryHistory,
       clearResults,
+      resetSessionCost,
     }),
     [
       testResults,
       isLoading,
+      inFlight,
       error,
+      sessionCostCents,
       testEndpoint,
+      runSuite,
+      loadTestEndpoint,
+      fuzzEndpoint,
       getPrompt,
+      cancelRequest,
+      cancelAll,
       generateSampleInput,
+      generateSampleInputs,
+      estimateUsage,
       validateInput,
+      validateOutput,
+      queryHistory,
       clearResults,
+      resetSessionCost,
     ]
   );
 };
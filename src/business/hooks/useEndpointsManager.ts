@@ -3,7 +3,7 @@
  * Business logic hook that wraps the client useEndpoints hook with Zustand caching
  */
 
-import { useCallback, useEffect, useMemo, useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type {
   Endpoint,
   EndpointCreateRequest,
@@ -14,9 +14,23 @@ import type {
 } from '@sudobility/shapeshyft_types';
 import {
   type FirebaseIdToken,
+  ShapeshyftClient,
   useEndpoints,
 } from '@sudobility/shapeshyft_client';
 import { useEndpointsStore } from '../stores/endpointsStore';
+import {
+  buildEndpointRevision,
+  buildRevertRequest,
+  type EndpointRevision,
+  useEndpointRevisionsStore,
+} from '../stores/endpointRevisionsStore';
+import type { RetryPolicy } from '../utils/retry';
+import { useRetryingNetworkClient } from './useRetryingNetworkClient';
+import {
+  checkSchemaCompatibility,
+  type SchemaChange,
+  type SchemaCompatibilityReport,
+} from '../utils/schema-compat';
 
 /**
  * Configuration for useEndpointsManager
@@ -29,8 +43,27 @@ export interface UseEndpointsManagerConfig {
   token: Optional<FirebaseIdToken>;
   /** Auto-fetch on mount when token is available */
   autoFetch?: boolean;
+  /** Retry policy for refresh (GET) requests */
+  retryPolicy?: RetryPolicy;
   /** Query params for filtering */
   params?: EndpointQueryParams;
+  /**
+   * Refuse schema updates that would break existing callers unless the
+   * update is confirmed with `confirmBreaking`. Endpoints that are not
+   * cached are fetched first; schema updates to endpoints that cannot be
+   * loaded are refused.
+   */
+  blockBreakingChanges?: boolean;
+  /** Name recorded as the author of endpoint revisions (default: userId) */
+  revisionAuthor?: string;
+}
+
+/**
+ * Per-call options for updateEndpoint
+ */
+export interface UpdateEndpointOptions {
+  /** Send the update even if it contains breaking schema changes */
+  confirmBreaking?: boolean;
 }
 
 /**
@@ -42,14 +75,33 @@ export interface UseEndpointsManagerReturn {
   error: Optional<string>;
   isCached: boolean;
   cachedAt: Optional<number>;
+  /** Breaking changes that caused the last update to be refused */
+  breakingChanges: SchemaChange[];
 
   refresh: (params?: EndpointQueryParams) => Promise<void>;
   createEndpoint: (data: EndpointCreateRequest) => Promise<void>;
   updateEndpoint: (
     endpointId: string,
-    data: EndpointUpdateRequest
+    data: EndpointUpdateRequest,
+    options?: UpdateEndpointOptions
   ) => Promise<boolean>;
+  /**
+   * Compare a proposed update's schemas with the cached endpoint; null when
+   * the endpoint is not cached
+   */
+  checkUpdateCompatibility: (
+    endpointId: string,
+    data: EndpointUpdateRequest
+  ) => Optional<SchemaCompatibilityReport>;
   deleteEndpoint: (endpointId: string) => Promise<void>;
+  /** Revisions recorded before each update of an endpoint, newest first */
+  getRevisions: (endpointId: string) => EndpointRevision[];
+  /** Restore an endpoint to the state captured in a revision */
+  revertEndpoint: (
+    endpointId: string,
+    revisionId: string,
+    options?: UpdateEndpointOptions
+  ) => Promise<boolean>;
   clearError: () => void;
 }
 
@@ -59,22 +111,38 @@ export interface UseEndpointsManagerReturn {
 export const useEndpointsManager = ({
   baseUrl,
   networkClient,
+  retryPolicy,
   userId,
   projectId,
   token,
   autoFetch = true,
   params,
+  blockBreakingChanges = false,
+  revisionAuthor,
 }: UseEndpointsManagerConfig): UseEndpointsManagerReturn => {
+  const networkClientWithRetry = useRetryingNetworkClient(
+    networkClient,
+    retryPolicy
+  );
   const {
     endpoints: clientEndpoints,
     isLoading,
-    error,
+    error: clientError,
     refresh: clientRefresh,
     createEndpoint: clientCreateEndpoint,
     updateEndpoint: clientUpdateEndpoint,
     deleteEndpoint: clientDeleteEndpoint,
-    clearError,
-  } = useEndpoints(networkClient, baseUrl);
+    clearError: clientClearError,
+  } = useEndpoints(networkClientWithRetry, baseUrl);
+  // Pre-update lookups bypass useEndpoints so they never touch its
+  // isLoading/error state
+  const lookupClient = useMemo(
+    () =>
+      new ShapeshyftClient({ baseUrl, networkClient: networkClientWithRetry }),
+    [baseUrl, networkClientWithRetry]
+  );
+  const [breakingChanges, setBreakingChanges] = useState<SchemaChange[]>([]);
+  const [updateRefusal, setUpdateRefusal] = useState<Optional<string>>(null);
   const cacheKey = useMemo(() => `${userId}:${projectId}`, [userId, projectId]);
   const cacheEntry = useEndpointsStore(
     useCallback(state => state.cache[cacheKey], [cacheKey])
@@ -85,6 +153,8 @@ export const useEndpointsManager = ({
     state => state.updateEndpoint
   );
   const removeEndpoint = useEndpointsStore(state => state.removeEndpoint);
+  const revisions = useEndpointRevisionsStore(state => state.revisions);
+  const addRevision = useEndpointRevisionsStore(state => state.addRevision);
 
   // Get cached data
   const cachedEndpoints = cacheEntry?.endpoints;
@@ -140,17 +210,92 @@ export const useEndpointsManager = ({
     [clientCreateEndpoint, userId, projectId, token, addEndpoint]
   );
 
+  const error = clientError ?? updateRefusal;
+
+  const clearError = useCallback(() => {
+    setBreakingChanges([]);
+    setUpdateRefusal(null);
+    clientClearError();
+  }, [clientClearError]);
+
+  /**
+   * Compare a proposed update with the cached endpoint
+   */
+  const checkUpdateCompatibility = useCallback(
+    (
+      endpointId: string,
+      data: EndpointUpdateRequest
+    ): Optional<SchemaCompatibilityReport> => {
+      const current = endpoints.find(ep => ep.uuid === endpointId);
+      return current ? checkSchemaCompatibility(current, data) : null;
+    },
+    [endpoints]
+  );
+
   /**
-   * Update an endpoint
+   * The cached endpoint, fetched from the server when it is not cached;
+   * null when it cannot be loaded
+   */
+  const loadEndpoint = useCallback(
+    async (endpointId: string): Promise<Optional<Endpoint>> => {
+      const cached = endpoints.find(ep => ep.uuid === endpointId);
+      if (cached || !token) {
+        return cached ?? null;
+      }
+      try {
+        const response = await lookupClient.getEndpoint(
+          userId,
+          projectId,
+          endpointId,
+          token
+        );
+        return response.success && response.data ? response.data : null;
+      } catch {
+        return null;
+      }
+    },
+    [endpoints, token, lookupClient, userId, projectId]
+  );
+
+  /**
+   * Update an endpoint, refusing breaking schema changes when configured.
+   * The endpoint is loaded first so its prior state can be recorded as a
+   * revision when the update succeeds. If it cannot be loaded, the update
+   * is refused only when a schema compatibility check needs it; otherwise
+   * it is sent without recording a revision.
    */
   const updateEndpoint = useCallback(
     async (
       endpointId: string,
-      data: EndpointUpdateRequest
+      data: EndpointUpdateRequest,
+      options?: UpdateEndpointOptions
     ): Promise<boolean> => {
       if (!token) {
         return false;
       }
+      setBreakingChanges([]);
+      setUpdateRefusal(null);
+      const previous = await loadEndpoint(endpointId);
+      const checkSchemas =
+        blockBreakingChanges &&
+        !options?.confirmBreaking &&
+        (data.input_schema != null || data.output_schema != null);
+      if (checkSchemas) {
+        if (!previous) {
+          setUpdateRefusal(
+            `Update refused: endpoint ${endpointId} could not be loaded to check schema compatibility`
+          );
+          return false;
+        }
+        const report = checkSchemaCompatibility(previous, data);
+        if (!report.compatible) {
+          setBreakingChanges(report.breakingChanges);
+          setUpdateRefusal(
+            `Update refused: ${report.breakingChanges.length} breaking schema change(s)`
+          );
+          return false;
+        }
+      }
       const response = await clientUpdateEndpoint(
         userId,
         projectId,
@@ -159,12 +304,57 @@ export const useEndpointsManager = ({
         token
       );
       if (response.success && response.data) {
+        const revision =
+          previous &&
+          buildEndpointRevision(
+            endpointId,
+            previous,
+            response.data,
+            revisionAuthor ?? userId
+          );
+        if (revision) {
+          addRevision(revision);
+        }
         updateEndpointInStore(userId, projectId, endpointId, response.data);
         return true;
       }
       return false;
     },
-    [clientUpdateEndpoint, userId, projectId, token, updateEndpointInStore]
+    [
+      clientUpdateEndpoint,
+      userId,
+      projectId,
+      token,
+      updateEndpointInStore,
+      blockBreakingChanges,
+      loadEndpoint,
+      addRevision,
+      revisionAuthor,
+    ]
+  );
+
+  const getRevisions = useCallback(
+    (endpointId: string): EndpointRevision[] => revisions[endpointId] ?? [],
+    [revisions]
+  );
+
+  /**
+   * Restore an endpoint to a recorded revision. The restore is itself an
+   * update, so it is recorded and can be undone the same way.
+   */
+  const revertEndpoint = useCallback(
+    async (
+      endpointId: string,
+      revisionId: string,
+      options?: UpdateEndpointOptions
+    ): Promise<boolean> => {
+      const revision = revisions[endpointId]?.find(r => r.id === revisionId);
+      if (!revision) {
+        return false;
+      }
+      return updateEndpoint(endpointId, buildRevertRequest(revision), options);
+    },
+    [revisions, updateEndpoint]
   );
 
   /**
@@ -216,10 +406,14 @@ export const useEndpointsManager = ({
       error,
       isCached,
       cachedAt: cachedAt ?? null,
+      breakingChanges,
       refresh,
       createEndpoint,
       updateEndpoint,
+      checkUpdateCompatibility,
       deleteEndpoint,
+      getRevisions,
+      revertEndpoint,
       clearError,
     }),
     [
@@ -229,10 +423,14 @@ export const useEndpointsManager = ({
       clearError,
       isCached,
       cachedAt,
+      breakingChanges,
       refresh,
       createEndpoint,
       updateEndpoint,
+      checkUpdateCompatibility,
       deleteEndpoint,
+      getRevisions,
+      revertEndpoint,
     ]
   );
 };
@@ -13,6 +13,8 @@ import type {
 } from '@sudobility/shapeshyft_types';
 import { type FirebaseIdToken, useKeys } from '@sudobility/shapeshyft_client';
 import { useKeysStore } from '../stores/keysStore';
+import type { RetryPolicy } from '../utils/retry';
+import { useRetryingNetworkClient } from './useRetryingNetworkClient';
 
 /**
  * Configuration for useKeysManager
@@ -24,6 +26,8 @@ export interface UseKeysManagerConfig {
   token: Optional<FirebaseIdToken>;
   /** Auto-fetch on mount when token is available */
   autoFetch?: boolean;
+  /** Retry policy for refresh (GET) requests */
+  retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -49,10 +53,15 @@ export interface UseKeysManagerReturn {
 export const useKeysManager = ({
   baseUrl,
   networkClient,
+  retryPolicy,
   userId,
   token,
   autoFetch = true,
 }: UseKeysManagerConfig): UseKeysManagerReturn => {
+  const networkClientWithRetry = useRetryingNetworkClient(
+    networkClient,
+    retryPolicy
+  );
   const {
     keys: clientKeys,
     isLoading,
@@ -62,7 +71,7 @@ export const useKeysManager = ({
     updateKey: clientUpdateKey,
     deleteKey: clientDeleteKey,
     clearError,
-  } = useKeys(networkClient, baseUrl);
+  } = useKeys(networkClientWithRetry, baseUrl);
   const cacheEntry = useKeysStore(
     useCallback(state => state.cache[userId], [userId])
   );
@@ -17,6 +17,8 @@ import {
   useProjects,
 } from '@sudobility/shapeshyft_client';
 import { useProjectsStore } from '../stores/projectsStore';
+import type { RetryPolicy } from '../utils/retry';
+import { useRetryingNetworkClient } from './useRetryingNetworkClient';
 
 /**
  * Configuration for useProjectsManager
@@ -28,6 +30,8 @@ export interface UseProjectsManagerConfig {
   token: Optional<FirebaseIdToken>;
   /** Auto-fetch on mount when token is available */
   autoFetch?: boolean;
+  /** Retry policy for refresh (GET) requests */
+  retryPolicy?: RetryPolicy;
   /** Query params for filtering */
   params?: ProjectQueryParams;
 }
@@ -58,11 +62,16 @@ export interface UseProjectsManagerReturn {
 export const useProjectsManager = ({
   baseUrl,
   networkClient,
+  retryPolicy,
   userId,
   token,
   autoFetch = true,
   params,
 }: UseProjectsManagerConfig): UseProjectsManagerReturn => {
+  const networkClientWithRetry = useRetryingNetworkClient(
+    networkClient,
+    retryPolicy
+  );
   const {
     projects: clientProjects,
     isLoading,
@@ -72,7 +81,7 @@ export const useProjectsManager = ({
     updateProject: clientUpdateProject,
     deleteProject: clientDeleteProject,
     clearError,
-  } = useProjects(networkClient, baseUrl);
+  } = useProjects(networkClientWithRetry, baseUrl);
   const cacheEntry = useProjectsStore(
     useCallback(state => state.cache[userId], [userId])
   );
@@ -0,0 +1,30 @@
+/**
+ * Retrying Network Client Hook
+ * Memoized createRetryingNetworkClient for the manager hooks
+ */
+
+import { useMemo } from 'react';
+import type { NetworkClient } from '@sudobility/shapeshyft_types';
+import { createRetryingNetworkClient, type RetryPolicy } from '../utils/retry';
+
+/**
+ * Wrap a NetworkClient with a retry policy, or return it unchanged without
+ * one. The wrapper is rebuilt only when the policy's values change, so an
+ * inline policy object does not recreate the client on every render.
+ */
+export const useRetryingNetworkClient = (
+  networkClient: NetworkClient,
+  retryPolicy?: RetryPolicy
+): NetworkClient => {
+  const policyKey = retryPolicy ? JSON.stringify(retryPolicy) : null;
+  return useMemo(
+    () =>
+      policyKey
+        ? createRetryingNetworkClient(
+            networkClient,
+            JSON.parse(policyKey) as RetryPolicy
+          )
+        : networkClient,
+    [networkClient, policyKey]
+  );
+};
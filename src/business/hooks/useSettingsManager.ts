@@ -15,6 +15,8 @@ import {
   useSettings,
 } from '@sudobility/shapeshyft_client';
 import { useSettingsStore } from '../stores/settingsStore';
+import type { RetryPolicy } from '../utils/retry';
+import { useRetryingNetworkClient } from './useRetryingNetworkClient';
 
 /**
  * Configuration for useSettingsManager
@@ -26,6 +28,8 @@ export interface UseSettingsManagerConfig {
   token: Optional<FirebaseIdToken>;
   /** Auto-fetch on mount when token is available */
   autoFetch?: boolean;
+  /** Retry policy for refresh (GET) requests */
+  retryPolicy?: RetryPolicy;
 }
 
 /**
@@ -49,10 +53,15 @@ export interface UseSettingsManagerReturn {
 export const useSettingsManager = ({
   baseUrl,
   networkClient,
+  retryPolicy,
   userId,
   token,
   autoFetch = true,
 }: UseSettingsManagerConfig): UseSettingsManagerReturn => {
+  const networkClientWithRetry = useRetryingNetworkClient(
+    networkClient,
+    retryPolicy
+  );
   const {
     settings: clientSettings,
     isLoading,
@@ -60,7 +69,7 @@ export const useSettingsManager = ({
     refresh: clientRefresh,
     updateSettings: clientUpdateSettings,
     clearError,
-  } = useSettings(networkClient, baseUrl);
+  } = useSettings(networkClientWithRetry, baseUrl);
 
   const cacheEntry = useSettingsStore(
     useCallback(state => state.cache[userId], [userId])
@@ -6,3 +6,6 @@ export * from './hooks';
 
 // Templates
 export * from './templates';
+
+// Utils
+export * from './utils';
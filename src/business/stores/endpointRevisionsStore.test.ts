@@ -0,0 +1,155 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Endpoint } from '@sudobility/shapeshyft_types';
+import {
+  buildEndpointRevision,
+  buildRevertRequest,
+  DEFAULT_REVISION_LIMIT,
+  diffEndpointSnapshots,
+  useEndpointRevisionsStore,
+} from './endpointRevisionsStore';
+
+const endpoint: Endpoint = {
+  uuid: 'ep-1',
+  project_id: 'p1',
+  endpoint_name: 'analyze',
+  display_name: 'Analyze',
+  http_method: 'POST',
+  llm_key_id: 'key-1',
+  input_schema: { type: 'object' },
+  output_schema: {
+    type: 'object',
+    properties: { sentiment: { type: 'string' } },
+  },
+  instructions: 'Classify the text',
+  context: null,
+  is_active: true,
+  created_at: null,
+  updated_at: null,
+};
+
+describe('diffEndpointSnapshots', () => {
+  it('should report changed versioned fields only', () => {
+    expect(
+      diffEndpointSnapshots(endpoint, {
+        ...endpoint,
+        instructions: 'Classify the review',
+        output_schema: { type: 'object' },
+        updated_at: new Date(),
+      })
+    ).toEqual([
+      {
+        field: 'output_schema',
+        before: endpoint.output_schema,
+        after: { type: 'object' },
+      },
+      {
+        field: 'instructions',
+        before: 'Classify the text',
+        after: 'Classify the review',
+      },
+    ]);
+  });
+
+  it('should compare schemas by value and treat missing fields as null', () => {
+    expect(
+      diffEndpointSnapshots(endpoint, {
+        ...endpoint,
+        input_schema: { type: 'object' },
+        context: undefined as unknown as null,
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('buildEndpointRevision', () => {
+  it('should snapshot the previous state when the update changes it', () => {
+    const revision = buildEndpointRevision(
+      'ep-1',
+      endpoint,
+      { ...endpoint, is_active: false },
+      'alice'
+    );
+    expect(revision).toMatchObject({
+      endpointId: 'ep-1',
+      author: 'alice',
+      changes: [{ field: 'is_active', before: true, after: false }],
+    });
+    expect(revision?.snapshot).not.toHaveProperty('uuid');
+    expect(revision?.snapshot.is_active).toBe(true);
+    expect(buildEndpointRevision('ep-1', endpoint, endpoint, 'alice')).toBe(
+      null
+    );
+  });
+});
+
+describe('buildRevertRequest', () => {
+  it('should restore every versioned field of the snapshot', () => {
+    const revision = {
+      id: 'rev-1',
+      endpointId: 'ep-1',
+      createdAt: 0,
+      author: 'alice',
+      snapshot: endpoint,
+      changes: [],
+    };
+    expect(buildRevertRequest(revision)).toEqual({
+      endpoint_name: 'analyze',
+      display_name: 'Analyze',
+      http_method: 'POST',
+      llm_key_id: 'key-1',
+      input_schema: endpoint.input_schema,
+      output_schema: endpoint.output_schema,
+      instructions: 'Classify the text',
+      context: null,
+      is_active: true,
+    });
+  });
+});
+
+describe('useEndpointRevisionsStore', () => {
+  beforeAll(() => {
+    // No localStorage under Node; persist warns on every update
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    useEndpointRevisionsStore.getState().clearAll();
+    useEndpointRevisionsStore
+      .getState()
+      .setRetentionLimit(DEFAULT_REVISION_LIMIT);
+  });
+
+  function record(endpointId: string, instructions: string) {
+    return useEndpointRevisionsStore.getState().addRevision({
+      endpointId,
+      author: 'alice',
+      snapshot: { ...endpoint, instructions },
+      changes: [],
+    });
+  }
+
+  it('should keep revisions newest first within the limit', () => {
+    const store = useEndpointRevisionsStore.getState();
+    store.setRetentionLimit(2);
+    for (const instructions of ['v1', 'v2', 'v3']) {
+      record('ep-1', instructions);
+    }
+    record('ep-2', 'other');
+
+    expect(
+      store.getRevisions('ep-1').map(r => r.snapshot.instructions)
+    ).toEqual(['v3', 'v2']);
+    expect(store.getRevisions('ep-2')).toHaveLength(1);
+  });
+
+  it('should trim existing history when the limit is lowered', () => {
+    const first = record('ep-1', 'v1');
+    const second = record('ep-1', 'v2');
+    const store = useEndpointRevisionsStore.getState();
+    store.setRetentionLimit(0.5);
+
+    expect(useEndpointRevisionsStore.getState().retentionLimit).toBe(1);
+    expect(store.getRevisions('ep-1')).toEqual([second]);
+    expect(store.getRevision('ep-1', first.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Endpoint Revisions Store
+ * Persisted Zustand store for endpoint snapshots taken before each update,
+ * keyed by endpoint UUID
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type {
+  Endpoint,
+  EndpointUpdateRequest,
+} from '@sudobility/shapeshyft_types';
+import { isJsonEqual } from '../utils/json-schema-validator';
+
+/**
+ * Default number of revisions kept per endpoint
+ */
+export const DEFAULT_REVISION_LIMIT = 50;
+
+/**
+ * Endpoint fields that are versioned (everything an update can change)
+ */
+export const REVISION_FIELDS = [
+  'endpoint_name',
+  'display_name',
+  'http_method',
+  'llm_key_id',
+  'input_schema',
+  'output_schema',
+  'instructions',
+  'context',
+  'is_active',
+] as const;
+
+export type RevisionField = (typeof REVISION_FIELDS)[number];
+
+/**
+ * Versioned state of an endpoint
+ */
+export type EndpointSnapshot = Pick<Endpoint, RevisionField>;
+
+/**
+ * A field that differs between two snapshots
+ */
+export interface EndpointFieldChange {
+  field: RevisionField;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Endpoint state captured before an update
+ */
+export interface EndpointRevision {
+  id: string;
+  endpointId: string;
+  /** When the update was made (ms since epoch) */
+  createdAt: number;
+  /** Who made the update */
+  author: string;
+  /** The endpoint as it was before the update */
+  snapshot: EndpointSnapshot;
+  /** Fields the update changed, from the snapshot to the updated endpoint */
+  changes: EndpointFieldChange[];
+}
+
+/**
+ * Copy the versioned fields of an endpoint
+ */
+export function takeEndpointSnapshot(
+  endpoint: EndpointSnapshot
+): EndpointSnapshot {
+  const snapshot = {} as Record<RevisionField, unknown>;
+  for (const field of REVISION_FIELDS) {
+    snapshot[field] = endpoint[field];
+  }
+  return snapshot as EndpointSnapshot;
+}
+
+/**
+ * Field-level differences between two endpoint states
+ */
+export function diffEndpointSnapshots(
+  before: EndpointSnapshot,
+  after: EndpointSnapshot
+): EndpointFieldChange[] {
+  return REVISION_FIELDS.filter(
+    field => !isJsonEqual(before[field] ?? null, after[field] ?? null)
+  ).map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+/**
+ * The revision to record for an update, or null when the update changed no
+ * versioned field
+ */
+export function buildEndpointRevision(
+  endpointId: string,
+  previous: EndpointSnapshot,
+  updated: EndpointSnapshot,
+  author: string
+): Omit<EndpointRevision, 'id' | 'createdAt'> | null {
+  const changes = diffEndpointSnapshots(previous, updated);
+  if (changes.length === 0) {
+    return null;
+  }
+  return {
+    endpointId,
+    author,
+    snapshot: takeEndpointSnapshot(previous),
+    changes,
+  };
+}
+
+/**
+ * The update request that restores an endpoint to a revision's snapshot
+ */
+export function buildRevertRequest(
+  revision: EndpointRevision
+): EndpointUpdateRequest {
+  return takeEndpointSnapshot(revision.snapshot);
+}
+
+/**
+ * Generate an ID with the given prefix
+ */
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Endpoint revisions store state
+ */
+interface EndpointRevisionsStoreState {
+  /** Revisions keyed by endpoint UUID, newest first */
+  revisions: Record<string, EndpointRevision[]>;
+  /** Maximum number of revisions kept per endpoint */
+  retentionLimit: number;
+  /** Record a revision, trimming the endpoint's history to the limit */
+  addRevision: (
+    revision: Omit<EndpointRevision, 'id' | 'createdAt'> & {
+      createdAt?: number;
+    }
+  ) => EndpointRevision;
+  /** Revisions for an endpoint, newest first */
+  getRevisions: (endpointId: string) => EndpointRevision[];
+  /** Find a single revision */
+  getRevision: (
+    endpointId: string,
+    revisionId: string
+  ) => EndpointRevision | undefined;
+  /** Change the retention limit and trim existing history */
+  setRetentionLimit: (limit: number) => void;
+  /** Clear revisions for one endpoint */
+  clearEndpointRevisions: (endpointId: string) => void;
+  /** Clear all revisions */
+  clearAll: () => void;
+}
+
+/**
+ * Persisted Zustand store for endpoint revisions
+ */
+export const useEndpointRevisionsStore = create<EndpointRevisionsStoreState>()(
+  persist(
+    (set, get) => ({
+      revisions: {},
+      retentionLimit: DEFAULT_REVISION_LIMIT,
+
+      addRevision: revision => {
+        const newRevision: EndpointRevision = {
+          ...revision,
+          id: makeId('rev'),
+          createdAt: revision.createdAt ?? Date.now(),
+        };
+        set(state => ({
+          revisions: {
+            ...state.revisions,
+            [revision.endpointId]: [
+              newRevision,
+              ...(state.revisions[revision.endpointId] ?? []),
+            ].slice(0, state.retentionLimit),
+          },
+        }));
+        return newRevision;
+      },
+
+      getRevisions: endpointId => get().revisions[endpointId] ?? [],
+
+      getRevision: (endpointId, revisionId) =>
+        get().revisions[endpointId]?.find(r => r.id === revisionId),
+
+      setRetentionLimit: (limit: number) => {
+        const retentionLimit = Math.max(1, Math.floor(limit));
+        set(state => {
+          const revisions: Record<string, EndpointRevision[]> = {};
+          for (const [endpointId, list] of Object.entries(state.revisions)) {
+            revisions[endpointId] = list.slice(0, retentionLimit);
+          }
+          return { revisions, retentionLimit };
+        });
+      },
+
+      clearEndpointRevisions: (endpointId: string) =>
+        set(state => {
+          const revisions = { ...state.revisions };
+          delete revisions[endpointId];
+          return { revisions };
+        }),
+
+      clearAll: () => set({ revisions: {} }),
+    }),
+    {
+      name: 'shapeshyft-endpoint-revisions',
+    }
+  )
+);
@@ -3,3 +3,30 @@ export { useProjectsStore } from './projectsStore';
 export { useEndpointsStore } from './endpointsStore';
 export { useAnalyticsStore } from './analyticsStore';
 export { useSettingsStore } from './settingsStore';
+export {
+  useTestSuitesStore,
+  type TestSuite,
+  type TestCase,
+} from './testSuitesStore';
+export {
+  useTestHistoryStore,
+  filterTestHistory,
+  trimTestHistory,
+  migrateTestHistory,
+  DEFAULT_TEST_HISTORY_LIMIT,
+  DEFAULT_TEST_HISTORY_TOTAL_LIMIT,
+  type TestHistoryFilter,
+} from './testHistoryStore';
+export {
+  useEndpointRevisionsStore,
+  takeEndpointSnapshot,
+  diffEndpointSnapshots,
+  buildEndpointRevision,
+  buildRevertRequest,
+  DEFAULT_REVISION_LIMIT,
+  REVISION_FIELDS,
+  type RevisionField,
+  type EndpointSnapshot,
+  type EndpointFieldChange,
+  type EndpointRevision,
+} from './endpointRevisionsStore';
@@ -0,0 +1,123 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TestResult } from '../hooks/useEndpointTester';
+import {
+  filterTestHistory,
+  migrateTestHistory,
+  trimTestHistory,
+  useTestHistoryStore,
+} from './testHistoryStore';
+
+function result(
+  id: string,
+  endpointId: string,
+  timestamp: number,
+  overrides: Partial<TestResult> = {}
+): TestResult {
+  return {
+    id,
+    endpointId,
+    endpointName: endpointId,
+    input: { text: id },
+    output: null,
+    success: true,
+    status: 'success',
+    error: null,
+    timestamp,
+    latencyMs: 100,
+    tokensInput: null,
+    tokensOutput: null,
+    outputValidation: null,
+    attempts: [],
+    estimatedCostCents: null,
+    ...overrides,
+  };
+}
+
+const history = {
+  a: [
+    result('a2', 'a', 20),
+    result('a1', 'a', 10, { success: false, error: 'Rate limited' }),
+  ],
+  b: [result('b1', 'b', 15)],
+};
+
+describe('filterTestHistory', () => {
+  it('should merge endpoints newest first and apply filters', () => {
+    expect(filterTestHistory(history).map(r => r.id)).toEqual([
+      'a2',
+      'b1',
+      'a1',
+    ]);
+    expect(filterTestHistory(history, { endpointId: 'b' })).toHaveLength(1);
+    expect(
+      filterTestHistory(history, { success: false }).map(r => r.id)
+    ).toEqual(['a1']);
+    expect(
+      filterTestHistory(history, { from: 12, to: 20 }).map(r => r.id)
+    ).toEqual(['a2', 'b1']);
+    expect(
+      filterTestHistory(history, { search: 'rate LIMITED' }).map(r => r.id)
+    ).toEqual(['a1']);
+  });
+});
+
+describe('trimTestHistory', () => {
+  it('should apply the per-endpoint and overall limits', () => {
+    expect(trimTestHistory(history, 1, 10)).toEqual({
+      a: [history.a[0]],
+      b: history.b,
+    });
+    expect(trimTestHistory(history, 10, 2)).toEqual({
+      a: [history.a[0]],
+      b: history.b,
+    });
+    expect(trimTestHistory(history, 10, 1)).toEqual({ a: [history.a[0]] });
+  });
+});
+
+describe('migrateTestHistory', () => {
+  it('should fill fields missing from version 0 results', () => {
+    const legacy = {
+      id: 'old',
+      endpointId: 'a',
+      success: false,
+      timestamp: 1,
+    };
+    const migrated = migrateTestHistory({ history: { a: [legacy] } }, 0);
+    expect(migrated.history.a[0]).toMatchObject({
+      status: 'failed',
+      outputValidation: null,
+      attempts: [],
+      estimatedCostCents: null,
+    });
+  });
+});
+
+describe('useTestHistoryStore', () => {
+  beforeAll(() => {
+    // No localStorage under Node; persist warns on every update
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    useTestHistoryStore.getState().clearAll();
+    useTestHistoryStore.getState().setRetentionLimit(100);
+    useTestHistoryStore.getState().setTotalRetentionLimit(1000);
+  });
+
+  it('should trim history as results are added', () => {
+    const store = useTestHistoryStore.getState();
+    store.setRetentionLimit(2);
+    store.setTotalRetentionLimit(3);
+    for (let i = 1; i <= 3; i++) {
+      store.addResult(result(`a${i}`, 'a', i));
+    }
+    store.addResult(result('b1', 'b', 4));
+    store.addResult(result('c1', 'c', 5));
+
+    const { history: kept } = useTestHistoryStore.getState();
+    expect(kept.a.map(r => r.id)).toEqual(['a3']);
+    expect(kept.b.map(r => r.id)).toEqual(['b1']);
+    expect(kept.c.map(r => r.id)).toEqual(['c1']);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Test History Store
+ * Persisted Zustand store for endpoint test results keyed by endpoint UUID
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { TestResult } from '../hooks/useEndpointTester';
+
+/**
+ * Default number of results kept per endpoint
+ */
+export const DEFAULT_TEST_HISTORY_LIMIT = 100;
+
+/**
+ * Default number of results kept across all endpoints, so persisted history
+ * stays within localStorage quota however many endpoints are tested
+ */
+export const DEFAULT_TEST_HISTORY_TOTAL_LIMIT = 1000;
+
+/**
+ * Version of the persisted history; bump and extend migrateTestHistory when
+ * TestResult gains fields
+ */
+const TEST_HISTORY_VERSION = 1;
+
+/**
+ * Filter for querying test history
+ */
+export interface TestHistoryFilter {
+  /** Only results for this endpoint UUID */
+  endpointId?: string;
+  /** Only successful (true) or failed (false) results */
+  success?: boolean;
+  /** Earliest timestamp (inclusive, ms since epoch) */
+  from?: number;
+  /** Latest timestamp (inclusive, ms since epoch) */
+  to?: number;
+  /** Case-insensitive text matched against input, output and error */
+  search?: string;
+}
+
+/**
+ * Filter test results, newest first
+ */
+export function filterTestHistory(
+  history: Record<string, TestResult[]>,
+  filter: TestHistoryFilter = {}
+): TestResult[] {
+  const source = filter.endpointId
+    ? (history[filter.endpointId] ?? [])
+    : Object.values(history).flat();
+  const search = filter.search?.trim().toLowerCase();
+
+  return source
+    .filter(result => {
+      if (filter.success !== undefined && result.success !== filter.success) {
+        return false;
+      }
+      if (filter.from !== undefined && result.timestamp < filter.from) {
+        return false;
+      }
+      if (filter.to !== undefined && result.timestamp > filter.to) {
+        return false;
+      }
+      if (search) {
+        const haystack = [
+          result.endpointName,
+          JSON.stringify(result.input) ?? '',
+          JSON.stringify(result.output) ?? '',
+          result.error ?? '',
+        ]
+          .join('\n')
+          .toLowerCase();
+        if (!haystack.includes(search)) {
+          return false;
+        }
+      }
+      return true;
+    })
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Trim history to `perEndpoint` results per endpoint, then drop the oldest
+ * results overall until at most `total` remain
+ */
+export function trimTestHistory(
+  history: Record<string, TestResult[]>,
+  perEndpoint: number,
+  total: number
+): Record<string, TestResult[]> {
+  const kept = Object.values(history)
+    .flatMap(results => results.slice(0, perEndpoint))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, total);
+  const trimmed: Record<string, TestResult[]> = {};
+  for (const result of kept) {
+    (trimmed[result.endpointId] ??= []).push(result);
+  }
+  return trimmed;
+}
+
+/**
+ * Upgrade persisted history from an older version. Version 0 results predate
+ * run status, retry attempts and cost estimates.
+ */
+export function migrateTestHistory(
+  persisted: unknown,
+  version: number
+): Pick<TestHistoryStoreState, 'history'> {
+  const state = (persisted ?? {}) as Partial<TestHistoryStoreState>;
+  const history = state.history ?? {};
+  if (version >= TEST_HISTORY_VERSION) {
+    return { ...state, history };
+  }
+  const migrated: Record<string, TestResult[]> = {};
+  for (const [endpointId, results] of Object.entries(history)) {
+    migrated[endpointId] = results.map(result => ({
+      ...result,
+      status: result.status ?? (result.success ? 'success' : 'failed'),
+      outputValidation: result.outputValidation ?? null,
+      attempts: result.attempts ?? [],
+      estimatedCostCents: result.estimatedCostCents ?? null,
+    }));
+  }
+  return { ...state, history: migrated };
+}
+
+/**
+ * Test history store state
+ */
+interface TestHistoryStoreState {
+  /** Results keyed by endpoint UUID, newest first */
+  history: Record<string, TestResult[]>;
+  /** Maximum number of results kept per endpoint */
+  retentionLimit: number;
+  /** Maximum number of results kept across all endpoints */
+  totalRetentionLimit: number;
+  /** Record a result, trimming history to the retention limits */
+  addResult: (result: TestResult) => void;
+  /** Remove a single result */
+  removeResult: (endpointId: string, resultId: string) => void;
+  /** Change the per-endpoint retention limit and trim existing history */
+  setRetentionLimit: (limit: number) => void;
+  /** Change the overall retention limit and trim existing history */
+  setTotalRetentionLimit: (limit: number) => void;
+  /** Query history with a filter */
+  queryHistory: (filter?: TestHistoryFilter) => TestResult[];
+  /** Clear history for one endpoint */
+  clearEndpointHistory: (endpointId: string) => void;
+  /** Clear all history */
+  clearAll: () => void;
+}
+
+/**
+ * Persisted Zustand store for test history
+ */
+export const useTestHistoryStore = create<TestHistoryStoreState>()(
+  persist(
+    (set, get) => ({
+      history: {},
+      retentionLimit: DEFAULT_TEST_HISTORY_LIMIT,
+      totalRetentionLimit: DEFAULT_TEST_HISTORY_TOTAL_LIMIT,
+
+      addResult: (result: TestResult) =>
+        set(state => ({
+          history: trimTestHistory(
+            {
+              ...state.history,
+              [result.endpointId]: [
+                result,
+                ...(state.history[result.endpointId] ?? []),
+              ],
+            },
+            state.retentionLimit,
+            state.totalRetentionLimit
+          ),
+        })),
+
+      removeResult: (endpointId: string, resultId: string) =>
+        set(state => {
+          const existing = state.history[endpointId];
+          if (!existing) return state;
+          return {
+            history: {
+              ...state.history,
+              [endpointId]: existing.filter(r => r.id !== resultId),
+            },
+          };
+        }),
+
+      setRetentionLimit: (limit: number) => {
+        const retentionLimit = Math.max(1, Math.floor(limit));
+        set(state => ({
+          history: trimTestHistory(
+            state.history,
+            retentionLimit,
+            state.totalRetentionLimit
+          ),
+          retentionLimit,
+        }));
+      },
+
+      setTotalRetentionLimit: (limit: number) => {
+        const totalRetentionLimit = Math.max(1, Math.floor(limit));
+        set(state => ({
+          history: trimTestHistory(
+            state.history,
+            state.retentionLimit,
+            totalRetentionLimit
+          ),
+          totalRetentionLimit,
+        }));
+      },
+
+      queryHistory: (filter?: TestHistoryFilter) =>
+        filterTestHistory(get().history, filter),
+
+      clearEndpointHistory: (endpointId: string) =>
+        set(state => {
+          const history = { ...state.history };
+          delete history[endpointId];
+          return { history };
+        }),
+
+      clearAll: () => set({ history: {} }),
+    }),
+    {
+      name: 'shapeshyft-test-history',
+      version: TEST_HISTORY_VERSION,
+      migrate: migrateTestHistory,
+    }
+  )
+);
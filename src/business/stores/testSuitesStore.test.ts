@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// In-memory localStorage, installed before the store reads it at creation
+const storage = vi.hoisted(() => {
+  const items = new Map<string, string>();
+  const localStorage = {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+  };
+  Object.assign(globalThis, { localStorage });
+  return localStorage;
+});
+
+const { useTestSuitesStore } = await import('./testSuitesStore');
+
+const STORAGE_KEY = 'shapeshyft-test-suites';
+
+describe('useTestSuitesStore', () => {
+  beforeEach(() => {
+    useTestSuitesStore.getState().clearAll();
+  });
+
+  it('should create, update and remove suites', () => {
+    const store = useTestSuitesStore.getState();
+    const suite = store.addSuite({
+      name: 'Smoke',
+      endpointId: 'ep-1',
+      cases: [{ name: 'happy', input: { text: 'great' }, assertions: [] }],
+    });
+    store.addSuite({ name: 'Other', endpointId: 'ep-2' });
+
+    expect(suite.cases[0].id).toMatch(/^case-/);
+    expect(store.getSuitesForEndpoint('ep-1').map(s => s.name)).toEqual([
+      'Smoke',
+    ]);
+
+    store.updateSuite(suite.id, { name: 'Regression' });
+    expect(useTestSuitesStore.getState().suites[0].name).toBe('Regression');
+
+    store.removeSuite(suite.id);
+    expect(useTestSuitesStore.getState().suites.map(s => s.name)).toEqual([
+      'Other',
+    ]);
+  });
+
+  it('should add, update and remove cases and their assertions', () => {
+    const store = useTestSuitesStore.getState();
+    const suite = store.addSuite({ name: 'Smoke', endpointId: 'ep-1' });
+    const testCase = store.addCase(suite.id, {
+      name: 'positive',
+      input: { text: 'great' },
+      assertions: [
+        { type: 'fieldEquals', field: 'sentiment', value: 'positive' },
+      ],
+    });
+    const other = store.addCase(suite.id, {
+      name: 'negative',
+      input: { text: 'awful' },
+      assertions: [],
+    });
+
+    store.updateCase(suite.id, testCase.id, {
+      assertions: [
+        { type: 'fieldInEnum', field: 'sentiment', values: ['positive'] },
+        { type: 'maxLatency', maxMs: 2000 },
+      ],
+    });
+    store.removeCase(suite.id, other.id);
+
+    const [saved] = useTestSuitesStore.getState().suites;
+    expect(saved.cases).toEqual([
+      {
+        id: testCase.id,
+        name: 'positive',
+        input: { text: 'great' },
+        assertions: [
+          { type: 'fieldInEnum', field: 'sentiment', values: ['positive'] },
+          { type: 'maxLatency', maxMs: 2000 },
+        ],
+      },
+    ]);
+    expect(saved.updatedAt).toBeGreaterThanOrEqual(saved.createdAt);
+  });
+
+  it('should persist suites and restore them on rehydration', async () => {
+    const suite = useTestSuitesStore
+      .getState()
+      .addSuite({ name: 'Smoke', endpointId: 'ep-1' });
+    const persisted = storage.getItem(STORAGE_KEY);
+    expect(JSON.parse(persisted ?? '{}').state.suites).toEqual([suite]);
+
+    useTestSuitesStore.setState({ suites: [] });
+    storage.setItem(STORAGE_KEY, persisted ?? '');
+    await useTestSuitesStore.persist.rehydrate();
+    expect(useTestSuitesStore.getState().suites).toEqual([suite]);
+  });
+});
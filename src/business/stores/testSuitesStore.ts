@@ -0,0 +1,160 @@
+/**
+ * Test Suites Store
+ * Persisted Zustand store for saved endpoint test suites
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { TestAssertion } from '../utils/test-assertions';
+
+/**
+ * Saved test case: an input plus the expectations on its result
+ */
+export interface TestCase {
+  id: string;
+  name: string;
+  input: unknown;
+  assertions: TestAssertion[];
+}
+
+/**
+ * Named collection of test cases for one endpoint
+ */
+export interface TestSuite {
+  id: string;
+  name: string;
+  /** Endpoint UUID this suite targets */
+  endpointId: string;
+  cases: TestCase[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Generate an ID with the given prefix
+ */
+function makeId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+/**
+ * Test suites store state
+ */
+interface TestSuitesStoreState {
+  /** All saved suites */
+  suites: TestSuite[];
+  /** Create a suite */
+  addSuite: (
+    suite: Omit<TestSuite, 'id' | 'createdAt' | 'updatedAt' | 'cases'> & {
+      cases?: Omit<TestCase, 'id'>[];
+    }
+  ) => TestSuite;
+  /** Update a suite's name or endpoint */
+  updateSuite: (
+    id: string,
+    updates: Partial<Pick<TestSuite, 'name' | 'endpointId'>>
+  ) => void;
+  /** Delete a suite */
+  removeSuite: (id: string) => void;
+  /** Add a case to a suite */
+  addCase: (suiteId: string, testCase: Omit<TestCase, 'id'>) => TestCase;
+  /** Update a case in a suite */
+  updateCase: (
+    suiteId: string,
+    caseId: string,
+    updates: Partial<Omit<TestCase, 'id'>>
+  ) => void;
+  /** Remove a case from a suite */
+  removeCase: (suiteId: string, caseId: string) => void;
+  /** Get all suites for an endpoint */
+  getSuitesForEndpoint: (endpointId: string) => TestSuite[];
+  /** Clear all suites */
+  clearAll: () => void;
+}
+
+/**
+ * Persisted Zustand store for test suites
+ */
+export const useTestSuitesStore = create<TestSuitesStoreState>()(
+  persist(
+    (set, get) => ({
+      suites: [],
+
+      addSuite: suite => {
+        const now = Date.now();
+        const newSuite: TestSuite = {
+          id: makeId('suite'),
+          name: suite.name,
+          endpointId: suite.endpointId,
+          cases: (suite.cases ?? []).map(c => ({ ...c, id: makeId('case') })),
+          createdAt: now,
+          updatedAt: now,
+        };
+        set(state => ({
+          suites: [...state.suites, newSuite],
+        }));
+        return newSuite;
+      },
+
+      updateSuite: (id, updates) =>
+        set(state => ({
+          suites: state.suites.map(s =>
+            s.id === id ? { ...s, ...updates, updatedAt: Date.now() } : s
+          ),
+        })),
+
+      removeSuite: id =>
+        set(state => ({
+          suites: state.suites.filter(s => s.id !== id),
+        })),
+
+      addCase: (suiteId, testCase) => {
+        const newCase: TestCase = { ...testCase, id: makeId('case') };
+        set(state => ({
+          suites: state.suites.map(s =>
+            s.id === suiteId
+              ? { ...s, cases: [...s.cases, newCase], updatedAt: Date.now() }
+              : s
+          ),
+        }));
+        return newCase;
+      },
+
+      updateCase: (suiteId, caseId, updates) =>
+        set(state => ({
+          suites: state.suites.map(s =>
+            s.id === suiteId
+              ? {
+                  ...s,
+                  cases: s.cases.map(c =>
+                    c.id === caseId ? { ...c, ...updates } : c
+                  ),
+                  updatedAt: Date.now(),
+                }
+              : s
+          ),
+        })),
+
+      removeCase: (suiteId, caseId) =>
+        set(state => ({
+          suites: state.suites.map(s =>
+            s.id === suiteId
+              ? {
+                  ...s,
+                  cases: s.cases.filter(c => c.id !== caseId),
+                  updatedAt: Date.now(),
+                }
+              : s
+          ),
+        })),
+
+      getSuitesForEndpoint: endpointId =>
+        get().suites.filter(s => s.endpointId === endpointId),
+
+      clearAll: () => set({ suites: [] }),
+    }),
+    {
+      name: 'shapeshyft-test-suites',
+    }
+  )
+);
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createAbortRegistry,
+  RequestCancelledError,
+  RequestTimeoutError,
+  runWithAbort,
+} from './abortable';
+
+const never = () => new Promise<never>(() => {});
+
+describe('runWithAbort', () => {
+  it('should settle with the task', async () => {
+    await expect(runWithAbort(async () => 'ok')).resolves.toBe('ok');
+    await expect(
+      runWithAbort(async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+  });
+
+  it('should reject on timeout', async () => {
+    vi.useFakeTimers();
+    try {
+      const pending = runWithAbort(never, { timeoutMs: 50 });
+      vi.advanceTimersByTime(50);
+      await expect(pending).rejects.toBeInstanceOf(RequestTimeoutError);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should reject on abort, including an already aborted signal', async () => {
+    const controller = new AbortController();
+    const pending = runWithAbort(never, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestCancelledError);
+    await expect(
+      runWithAbort(async () => 'ok', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(RequestCancelledError);
+  });
+});
+
+describe('createAbortRegistry', () => {
+  it('should cancel one request or all of them', () => {
+    const registry = createAbortRegistry();
+    const first = registry.begin('a');
+    const second = registry.begin('b');
+    const third = registry.begin('c');
+
+    registry.cancel('a');
+    expect([first.aborted, second.aborted, third.aborted]).toEqual([
+      true,
+      false,
+      false,
+    ]);
+    registry.cancelAll();
+    expect(second.aborted && third.aborted).toBe(true);
+  });
+
+  it('should follow the external signal until the request ends', () => {
+    const registry = createAbortRegistry();
+    const external = new AbortController();
+    const remove = vi.spyOn(external.signal, 'removeEventListener');
+
+    const ended = registry.begin('a', external.signal);
+    registry.end('a');
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+    expect(registry.size).toBe(0);
+
+    const running = registry.begin('b', external.signal);
+    external.abort();
+    expect(running.aborted).toBe(true);
+    expect(ended.aborted).toBe(false);
+    expect(registry.begin('c', external.signal).aborted).toBe(true);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Abortable requests
+ * Cancellation and timeout support for promises that do not take a signal
+ */
+
+/**
+ * Thrown when a request is cancelled through its AbortSignal
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Thrown when a request does not settle within its timeout
+ */
+export class RequestTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Cancellation options for a single request
+ */
+export interface AbortOptions {
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+  /** Fails the request with RequestTimeoutError after this many ms */
+  timeoutMs?: number;
+}
+
+/**
+ * Run a task, rejecting early on abort or timeout. The underlying task keeps
+ * running; its result is discarded.
+ */
+export function runWithAbort<T>(
+  task: () => Promise<T>,
+  { signal, timeoutMs }: AbortOptions = {}
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(new RequestCancelledError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const cleanup = () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+      }
+      signal?.removeEventListener('abort', onAbort);
+    };
+    function onAbort() {
+      cleanup();
+      reject(new RequestCancelledError());
+    }
+
+    signal?.addEventListener('abort', onAbort);
+    if (timeoutMs !== undefined && timeoutMs > 0) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new RequestTimeoutError(timeoutMs));
+      }, timeoutMs);
+    }
+
+    task().then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      err => {
+        cleanup();
+        reject(err);
+      }
+    );
+  });
+}
+
+/**
+ * Tracks the abort controllers of in-flight requests by ID
+ */
+export interface AbortRegistry {
+  /**
+   * Register a request and return its signal, which also aborts when
+   * `externalSignal` does
+   */
+  begin: (id: string, externalSignal?: AbortSignal) => AbortSignal;
+  /** Unregister a finished request and detach it from its external signal */
+  end: (id: string) => void;
+  /** Abort one request */
+  cancel: (id: string) => void;
+  /** Abort every registered request */
+  cancelAll: () => void;
+  /** Number of registered requests */
+  readonly size: number;
+}
+
+/**
+ * Create a registry of abortable requests
+ */
+export function createAbortRegistry(): AbortRegistry {
+  const entries = new Map<
+    string,
+    { controller: AbortController; release: () => void }
+  >();
+
+  const end = (id: string) => {
+    entries.get(id)?.release();
+    entries.delete(id);
+  };
+
+  return {
+    begin: (id, externalSignal) => {
+      end(id);
+      const controller = new AbortController();
+      const onAbort = () => controller.abort();
+      if (externalSignal?.aborted) {
+        controller.abort();
+      } else {
+        externalSignal?.addEventListener('abort', onAbort, { once: true });
+      }
+      entries.set(id, {
+        controller,
+        release: () => externalSignal?.removeEventListener('abort', onAbort),
+      });
+      return controller.signal;
+    },
+    end,
+    cancel: id => entries.get(id)?.controller.abort(),
+    cancelAll: () => {
+      for (const { controller } of entries.values()) {
+        controller.abort();
+      }
+    },
+    get size() {
+      return entries.size;
+    },
+  };
+}
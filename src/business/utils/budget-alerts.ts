@@ -0,0 +1,51 @@
+/**
+ * Budget alerts
+ * Alerts raised when a budget's spend crosses a threshold or is projected to
+ * exceed its limit
+ */
+
+import type { BudgetPeriod } from './budget-periods';
+
+/**
+ * Alert severity, from least to most severe. 'projected' means the forecast
+ * exceeds the limit before the period resets.
+ */
+export type BudgetAlertSeverity =
+  | 'projected'
+  | 'warning'
+  | 'critical'
+  | 'exceeded';
+
+/**
+ * Budget alert
+ */
+export interface BudgetAlert {
+  budgetId: string;
+  budgetName: string;
+  currentSpendCents: number;
+  limitCents: number;
+  percentUsed: number;
+  severity: BudgetAlertSeverity;
+  /** Threshold percent that was crossed; absent for projected alerts */
+  threshold?: number;
+  message: string;
+  period: BudgetPeriod;
+  /** Start of the period the spend was measured in (ms since epoch) */
+  periodStart: number;
+  /** When the budget's period resets (ms since epoch) */
+  resetsAt: number;
+  /**
+   * Whether spend was measured over the period window; false when only an
+   * unscoped aggregate was available
+   */
+  periodScoped: boolean;
+  /**
+   * Spend from endpoints whose project or key could not be resolved, so it
+   * may belong to this budget but was not counted
+   */
+  unattributedCents: number;
+  /** Forecast end-of-period spend, when daily history was available */
+  projectedSpendCents?: number;
+  /** When the forecast reaches the limit, or null if not this period */
+  exhaustsAt?: number | null;
+}
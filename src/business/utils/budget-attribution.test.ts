@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageByEndpoint } from '@sudobility/shapeshyft_types';
+import { attributeSpend, buildEndpointDirectory } from './budget-attribution';
+
+function usage(endpointId: string, cents: number): UsageByEndpoint {
+  return {
+    endpoint_id: endpointId,
+    endpoint_name: endpointId,
+    total_requests: 1,
+    successful_requests: 1,
+    failed_requests: 0,
+    total_tokens_input: 0,
+    total_tokens_output: 0,
+    total_estimated_cost_cents: cents,
+    average_latency_ms: 0,
+  };
+}
+
+const directory = buildEndpointDirectory([
+  { uuid: 'e1', project_id: 'p1', llm_key_id: 'k1' },
+  { uuid: 'e2', project_id: 'p1', llm_key_id: 'k2' },
+  { uuid: 'e3', project_id: 'p2', llm_key_id: 'k1' },
+]);
+const rows = [
+  usage('e1', 100),
+  usage('e2', 50),
+  usage('e3', 25),
+  usage('e4', 10),
+];
+
+describe('attributeSpend', () => {
+  it('should attribute project spend through the directory', () => {
+    const result = attributeSpend({ projectId: 'p1' }, rows, directory);
+    expect(result.spendCents).toBe(150);
+    expect(result.endpointIds).toEqual(['e1', 'e2']);
+    expect(result.unattributed.map(r => r.endpoint_id)).toEqual(['e4']);
+    expect(result.unattributedCents).toBe(10);
+  });
+
+  it('should support endpoint and LLM key scopes', () => {
+    expect(attributeSpend({ endpointId: 'e4' }, rows, directory)).toEqual({
+      spendCents: 10,
+      endpointIds: ['e4'],
+      unattributed: [],
+      unattributedCents: 0,
+    });
+    const byKey = attributeSpend(
+      { projectId: 'p1', llmKeyId: 'k1' },
+      rows,
+      directory
+    );
+    expect(byKey.endpointIds).toEqual(['e1']);
+  });
+
+  it('should use ownership carried on usage rows', () => {
+    const row = { ...usage('e9', 5), project_id: 'p2' };
+    const result = attributeSpend({ projectId: 'p2' }, [row], new Map());
+    expect(result.spendCents).toBe(5);
+    expect(result.unattributed).toEqual([]);
+  });
+});
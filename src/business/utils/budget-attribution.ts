@@ -0,0 +1,119 @@
+/**
+ * Budget attribution
+ * Decide which endpoint spend counts toward a project, endpoint or LLM key
+ * scoped budget
+ */
+
+import type { Endpoint, UsageByEndpoint } from '@sudobility/shapeshyft_types';
+
+/**
+ * What a budget covers. Set fields must all match; an empty scope covers
+ * all spend.
+ */
+export interface BudgetScope {
+  projectId?: string;
+  endpointId?: string;
+  llmKeyId?: string;
+}
+
+/**
+ * Ownership of an endpoint
+ */
+export interface EndpointOwnership {
+  projectId: string;
+  llmKeyId: string;
+}
+
+/**
+ * Endpoint ownership keyed by endpoint UUID
+ */
+export type EndpointDirectory = Map<string, EndpointOwnership>;
+
+/**
+ * Spend attributed to a budget scope
+ */
+export interface BudgetAttribution {
+  spendCents: number;
+  /** Endpoints whose spend counted toward the scope */
+  endpointIds: string[];
+  /** Endpoints whose ownership is unknown, so whether they belong is too */
+  unattributed: UsageByEndpoint[];
+  unattributedCents: number;
+}
+
+/**
+ * Usage rows may carry ownership when the analytics API provides it
+ */
+type UsageRow = UsageByEndpoint & {
+  project_id?: string | null;
+  llm_key_id?: string | null;
+};
+
+/**
+ * Build an ownership directory from endpoints, e.g. every endpoint cached in
+ * useEndpointsStore
+ */
+export function buildEndpointDirectory(
+  endpoints: Pick<Endpoint, 'uuid' | 'project_id' | 'llm_key_id'>[]
+): EndpointDirectory {
+  const directory: EndpointDirectory = new Map();
+  for (const endpoint of endpoints) {
+    directory.set(endpoint.uuid, {
+      projectId: endpoint.project_id,
+      llmKeyId: endpoint.llm_key_id,
+    });
+  }
+  return directory;
+}
+
+/**
+ * Whether a scope covers only part of the spend
+ */
+export function isScopedBudget(scope: BudgetScope): boolean {
+  return Boolean(scope.projectId || scope.endpointId || scope.llmKeyId);
+}
+
+/**
+ * Sum the endpoint spend that belongs to a scope. Endpoints missing from the
+ * directory (and without ownership in the usage row) are reported as
+ * unattributed instead of being guessed at.
+ */
+export function attributeSpend(
+  scope: BudgetScope,
+  byEndpoint: UsageByEndpoint[],
+  directory: EndpointDirectory
+): BudgetAttribution {
+  const result: BudgetAttribution = {
+    spendCents: 0,
+    endpointIds: [],
+    unattributed: [],
+    unattributedCents: 0,
+  };
+
+  for (const row of byEndpoint as UsageRow[]) {
+    if (scope.endpointId && row.endpoint_id !== scope.endpointId) {
+      continue;
+    }
+    const known = directory.get(row.endpoint_id);
+    const projectId = known?.projectId ?? row.project_id ?? undefined;
+    const llmKeyId = known?.llmKeyId ?? row.llm_key_id ?? undefined;
+
+    if (
+      (scope.projectId && projectId === undefined) ||
+      (scope.llmKeyId && llmKeyId === undefined)
+    ) {
+      result.unattributed.push(row);
+      result.unattributedCents += row.total_estimated_cost_cents;
+      continue;
+    }
+    if (
+      (scope.projectId && projectId !== scope.projectId) ||
+      (scope.llmKeyId && llmKeyId !== scope.llmKeyId)
+    ) {
+      continue;
+    }
+    result.spendCents += row.total_estimated_cost_cents;
+    result.endpointIds.push(row.endpoint_id);
+  }
+  return result;
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { NetworkClient } from '@sudobility/shapeshyft_types';
+import type { BudgetAlert, BudgetAlertSeverity } from './budget-alerts';
+import {
+  type BudgetNotifier,
+  createWebhookNotifier,
+  notifyBudgetAlerts,
+} from './budget-notifiers';
+
+const periodStart = Date.UTC(2024, 2, 1);
+
+function alert(
+  severity: BudgetAlertSeverity,
+  start = periodStart,
+  budgetId = 'b1'
+): BudgetAlert {
+  return {
+    budgetId,
+    budgetName: budgetId,
+    currentSpendCents: 800,
+    limitCents: 1000,
+    percentUsed: 80,
+    severity,
+    message: `Budget "${budgetId}" ${severity}`,
+    period: 'monthly',
+    periodStart: start,
+    resetsAt: Date.UTC(2024, 3, 1),
+    periodScoped: true,
+    unattributedCents: 0,
+  };
+}
+
+function fakeNotifier(): BudgetNotifier & { sent: BudgetAlert[] } {
+  const sent: BudgetAlert[] = [];
+  return {
+    name: 'fake',
+    sent,
+    notify: a => {
+      sent.push(a);
+    },
+  };
+}
+
+describe('notifyBudgetAlerts', () => {
+  it('should notify only when a budget reaches a new highest severity', async () => {
+    const notifier = fakeNotifier();
+    let state = {};
+    for (const severity of [
+      'warning',
+      'warning',
+      'critical',
+      'warning',
+      'critical',
+    ] as const) {
+      state = (await notifyBudgetAlerts([alert(severity)], [notifier], state))
+        .state;
+    }
+    expect(notifier.sent.map(a => a.severity)).toEqual(['warning', 'critical']);
+  });
+
+  it('should keep state for budgets without a current alert', async () => {
+    const notifier = fakeNotifier();
+    const first = await notifyBudgetAlerts(
+      [alert('warning'), alert('critical', periodStart, 'b2')],
+      [notifier]
+    );
+    const partial = await notifyBudgetAlerts([], [notifier], first.state);
+    expect(partial.state).toEqual(first.state);
+    const next = await notifyBudgetAlerts(
+      [alert('warning'), alert('critical', periodStart, 'b2')],
+      [notifier],
+      partial.state
+    );
+    expect(next.notified).toEqual([]);
+    expect(notifier.sent).toHaveLength(2);
+  });
+
+  it('should notify again in a new period', async () => {
+    const notifier = fakeNotifier();
+    const first = await notifyBudgetAlerts([alert('exceeded')], [notifier]);
+    const next = await notifyBudgetAlerts(
+      [alert('exceeded', Date.UTC(2024, 3, 1))],
+      [notifier],
+      first.state
+    );
+    expect(next.notified).toHaveLength(1);
+    expect(notifier.sent).toHaveLength(2);
+  });
+
+  it('should collect failures without blocking other notifiers', async () => {
+    const notifier = fakeNotifier();
+    const broken: BudgetNotifier = {
+      name: 'broken',
+      notify: async () => {
+        throw new Error('offline');
+      },
+    };
+    const result = await notifyBudgetAlerts(
+      [alert('warning'), alert('critical', periodStart, 'b2')],
+      [broken, notifier]
+    );
+    expect(notifier.sent).toHaveLength(2);
+    expect(result.failures.map(f => [f.notifier, f.alert.budgetId])).toEqual([
+      ['broken', 'b1'],
+      ['broken', 'b2'],
+    ]);
+  });
+});
+
+describe('createWebhookNotifier', () => {
+  it('should POST the alert and reject on an error response', async () => {
+    const calls: unknown[][] = [];
+    let ok = true;
+    const client = {
+      post: async (...args: unknown[]) => {
+        calls.push(args);
+        return { ok, status: ok ? 200 : 500, statusText: '', data: null };
+      },
+    } as unknown as NetworkClient;
+    const notifier = createWebhookNotifier(client, 'https://hooks.test', {
+      'X-Key': 'k',
+    });
+
+    await notifier.notify(alert('critical'));
+    expect(calls[0]).toEqual([
+      'https://hooks.test',
+      { type: 'budget_alert', alert: alert('critical') },
+      { headers: { 'Content-Type': 'application/json', 'X-Key': 'k' } },
+    ]);
+
+    ok = false;
+    await expect(notifier.notify(alert('exceeded'))).rejects.toThrow('500');
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Budget notifiers
+ * Deliver budget alerts when a budget crosses into a more severe state
+ */
+
+import type { NetworkClient } from '@sudobility/shapeshyft_types';
+import type { BudgetAlert, BudgetAlertSeverity } from './budget-alerts';
+
+/**
+ * Delivers budget alerts somewhere (toast, browser notification, webhook,
+ * email...)
+ */
+export interface BudgetNotifier {
+  /** Shown in delivery errors */
+  name: string;
+  notify: (alert: BudgetAlert) => void | Promise<void>;
+}
+
+/**
+ * Most severe state a budget has been notified about in a period
+ */
+export interface NotifiedSeverity {
+  severity: BudgetAlertSeverity;
+  periodStart: number;
+}
+
+/**
+ * A notifier that failed to deliver an alert
+ */
+export interface BudgetNotificationFailure {
+  notifier: string;
+  alert: BudgetAlert;
+  error: unknown;
+}
+
+/**
+ * Outcome of notifyBudgetAlerts
+ */
+export interface BudgetNotificationResult {
+  /** Alerts that were sent to the notifiers */
+  notified: BudgetAlert[];
+  failures: BudgetNotificationFailure[];
+  /** State to pass to the next call, keyed by budget ID */
+  state: Record<string, NotifiedSeverity>;
+}
+
+const SEVERITY_RANK: Record<BudgetAlertSeverity, number> = {
+  projected: 1,
+  warning: 2,
+  critical: 3,
+  exceeded: 4,
+};
+
+/**
+ * Compare severities; positive when `a` is more severe
+ */
+export function compareSeverity(
+  a: BudgetAlertSeverity,
+  b: BudgetAlertSeverity
+): number {
+  return SEVERITY_RANK[a] - SEVERITY_RANK[b];
+}
+
+/**
+ * Pick the alerts that are a step up from the most severe state notified in
+ * the same period. The returned state keeps the highest severity reached per
+ * period, so a budget that drops back and crosses again is not notified
+ * twice, and keeps entries for budgets without a current alert until an
+ * alert from a new period replaces them.
+ */
+export function selectBudgetNotifications(
+  alerts: BudgetAlert[],
+  previous: Record<string, NotifiedSeverity>
+): Pick<BudgetNotificationResult, 'notified' | 'state'> {
+  const notified: BudgetAlert[] = [];
+  const state: Record<string, NotifiedSeverity> = { ...previous };
+  for (const alert of alerts) {
+    const last = state[alert.budgetId];
+    const isNew =
+      !last ||
+      last.periodStart !== alert.periodStart ||
+      compareSeverity(alert.severity, last.severity) > 0;
+    if (isNew) {
+      notified.push(alert);
+      state[alert.budgetId] = {
+        severity: alert.severity,
+        periodStart: alert.periodStart,
+      };
+    }
+  }
+  return { notified, state };
+}
+
+/**
+ * Send newly crossed alerts to every notifier. Failures are collected
+ * rather than thrown so one broken channel does not block the others.
+ */
+export async function notifyBudgetAlerts(
+  alerts: BudgetAlert[],
+  notifiers: BudgetNotifier[],
+  previous: Record<string, NotifiedSeverity> = {}
+): Promise<BudgetNotificationResult> {
+  const { notified, state } = selectBudgetNotifications(alerts, previous);
+  const failures: BudgetNotificationFailure[] = [];
+  await Promise.all(
+    notified.flatMap(alert =>
+      notifiers.map(async notifier => {
+        try {
+          await notifier.notify(alert);
+        } catch (error) {
+          failures.push({ notifier: notifier.name, alert, error });
+        }
+      })
+    )
+  );
+  return { notified, failures, state };
+}
+
+/**
+ * In-app toast through the app's toast function
+ */
+export function createToastNotifier(
+  show: (message: string, alert: BudgetAlert) => void
+): BudgetNotifier {
+  return {
+    name: 'toast',
+    notify: alert => show(alert.message, alert),
+  };
+}
+
+/**
+ * Browser notification. Does nothing where the Notification API is missing
+ * or permission has not been granted; request permission from a user
+ * gesture beforehand.
+ */
+export function createBrowserNotifier(
+  options: { title?: string; icon?: string } = {}
+): BudgetNotifier {
+  return {
+    name: 'browser',
+    notify: alert => {
+      if (
+        typeof Notification === 'undefined' ||
+        Notification.permission !== 'granted'
+      ) {
+        return;
+      }
+      new Notification(options.title ?? 'ShapeShyft budget alert', {
+        body: alert.message,
+        icon: options.icon,
+        tag: `budget-${alert.budgetId}`,
+      });
+    },
+  };
+}
+
+async function postAlert(
+  networkClient: NetworkClient,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  label: string
+): Promise<void> {
+  const response = await networkClient.post(url, body, {
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+  if (!response.ok) {
+    throw new Error(
+      `${label} notification failed: ${response.status} ${response.statusText}`
+    );
+  }
+}
+
+/**
+ * POST each alert as JSON to a webhook URL
+ */
+export function createWebhookNotifier(
+  networkClient: NetworkClient,
+  url: string,
+  headers: Record<string, string> = {}
+): BudgetNotifier {
+  return {
+    name: 'webhook',
+    notify: alert =>
+      postAlert(
+        networkClient,
+        url,
+        { type: 'budget_alert', alert },
+        headers,
+        'Webhook'
+      ),
+  };
+}
+
+/**
+ * Options for createEmailNotifier
+ */
+export interface EmailNotifierOptions {
+  /** Backend endpoint that sends the email */
+  url: string;
+  /** Recipient addresses */
+  to: string[];
+  /** Bearer token for the backend */
+  token?: string;
+}
+
+/**
+ * Ask the backend to email each alert
+ */
+export function createEmailNotifier(
+  networkClient: NetworkClient,
+  options: EmailNotifierOptions
+): BudgetNotifier {
+  const headers: Record<string, string> = options.token
+    ? { Authorization: `Bearer ${options.token}` }
+    : {};
+  return {
+    name: 'email',
+    notify: alert =>
+      postAlert(
+        networkClient,
+        options.url,
+        {
+          to: options.to,
+          subject: `Budget "${alert.budgetName}" ${alert.severity}`,
+          text: alert.message,
+          alert,
+        },
+        headers,
+        'Email'
+      ),
+  };
+}
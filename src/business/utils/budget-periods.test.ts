@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageByDate } from '@sudobility/shapeshyft_types';
+import {
+  filterUsageByWindow,
+  getBudgetPeriodWindow,
+  getPeriodQueryParams,
+} from './budget-periods';
+
+// Wednesday 2024-03-06 23:30 UTC (Thursday 07:30 in Singapore)
+const now = Date.UTC(2024, 2, 6, 23, 30);
+
+describe('getBudgetPeriodWindow', () => {
+  it('should compute daily, weekly and monthly windows in UTC', () => {
+    const daily = getBudgetPeriodWindow('daily', now);
+    expect(daily.start).toBe(Date.UTC(2024, 2, 6));
+    expect(daily.end).toBe(Date.UTC(2024, 2, 7));
+
+    const weekly = getBudgetPeriodWindow('weekly', now);
+    expect([weekly.startDate, weekly.endDate]).toEqual([
+      '2024-03-04',
+      '2024-03-10',
+    ]);
+
+    const sundayWeek = getBudgetPeriodWindow('weekly', now, {
+      weekStartsOn: 0,
+    });
+    expect(sundayWeek.startDate).toBe('2024-03-03');
+
+    const monthly = getBudgetPeriodWindow('monthly', now);
+    expect([monthly.startDate, monthly.endDate]).toEqual([
+      '2024-03-01',
+      '2024-03-31',
+    ]);
+    expect(monthly.end).toBe(Date.UTC(2024, 3, 1));
+  });
+
+  it('should place boundaries in the configured time zone', () => {
+    const daily = getBudgetPeriodWindow('daily', now, {
+      timeZone: 'Asia/Singapore',
+    });
+    expect(daily.startDate).toBe('2024-03-07');
+    expect(daily.start).toBe(Date.UTC(2024, 2, 6, 16));
+
+    // New York switches to daylight time on 2024-03-10
+    const weekly = getBudgetPeriodWindow('weekly', now, {
+      timeZone: 'America/New_York',
+    });
+    expect(weekly.start).toBe(Date.UTC(2024, 2, 4, 5));
+    expect(weekly.end).toBe(Date.UTC(2024, 2, 11, 4));
+  });
+});
+
+describe('getPeriodQueryParams', () => {
+  it('should cover the window with ISO instants', () => {
+    const window = getBudgetPeriodWindow('daily', now);
+    expect(getPeriodQueryParams(window, { project_id: 'p1' })).toEqual({
+      endpoint_id: null,
+      project_id: 'p1',
+      success: null,
+      start_date: '2024-03-06T00:00:00.000Z',
+      end_date: '2024-03-06T23:59:59.999Z',
+    });
+  });
+});
+
+describe('filterUsageByWindow', () => {
+  it('should keep rows dated inside the window', () => {
+    const row = (date: string): UsageByDate => ({
+      date,
+      total_requests: 1,
+      successful_requests: 1,
+      failed_requests: 0,
+      total_tokens_input: 0,
+      total_tokens_output: 0,
+      total_estimated_cost_cents: 1,
+      average_latency_ms: 0,
+    });
+    const rows = ['2024-03-03', '2024-03-04', '2024-03-10T00:00:00Z'].map(row);
+    const window = getBudgetPeriodWindow('weekly', now);
+    expect(filterUsageByWindow(rows, window).map(r => r.date)).toEqual([
+      '2024-03-04',
+      '2024-03-10T00:00:00Z',
+    ]);
+  });
+});
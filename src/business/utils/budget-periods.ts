@@ -0,0 +1,206 @@
+/**
+ * Budget periods
+ * Calendar windows for daily, weekly and monthly budgets in a given time zone
+ */
+
+import type {
+  UsageAnalyticsQueryParams,
+  UsageByDate,
+} from '@sudobility/shapeshyft_types';
+
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * How period boundaries are placed
+ */
+export interface BudgetPeriodOptions {
+  /** IANA time zone periods start in (default: 'UTC') */
+  timeZone?: string;
+  /** First day of the week, 0 = Sunday ... 6 = Saturday (default: 1) */
+  weekStartsOn?: number;
+}
+
+/**
+ * The period containing a given instant
+ */
+export interface BudgetPeriodWindow {
+  period: BudgetPeriod;
+  timeZone: string;
+  /** Start of the period (inclusive, ms since epoch) */
+  start: number;
+  /** Start of the next period, when the budget resets (exclusive) */
+  end: number;
+  /** First calendar day of the period in the time zone, YYYY-MM-DD */
+  startDate: string;
+  /** Last calendar day of the period in the time zone, YYYY-MM-DD */
+  endDate: string;
+}
+
+interface CalendarDate {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock fields of an instant in a time zone, as a UTC timestamp
+ */
+function wallClock(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+}
+
+function calendarDate(instant: number, timeZone: string): CalendarDate {
+  const wall = new Date(wallClock(instant, timeZone));
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth() + 1,
+    day: wall.getUTCDate(),
+  };
+}
+
+/**
+ * Instant at which a calendar day starts in a time zone, allowing for DST
+ */
+function startOfDay(date: CalendarDate, timeZone: string): number {
+  const target = Date.UTC(date.year, date.month - 1, date.day);
+  let instant = target;
+  // Two passes settle the offset unless midnight falls in a DST gap
+  for (let i = 0; i < 2; i++) {
+    instant = target - (wallClock(instant, timeZone) - instant);
+  }
+  return instant;
+}
+
+/**
+ * Calendar arithmetic through Date.UTC, which normalizes overflowing fields
+ */
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(
+    Date.UTC(date.year, date.month - 1, date.day + days)
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+function formatDate(date: CalendarDate): string {
+  return [
+    String(date.year).padStart(4, '0'),
+    String(date.month).padStart(2, '0'),
+    String(date.day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * The budget period containing `now`
+ */
+export function getBudgetPeriodWindow(
+  period: BudgetPeriod,
+  now: number | Date = Date.now(),
+  options: BudgetPeriodOptions = {}
+): BudgetPeriodWindow {
+  const timeZone = options.timeZone ?? 'UTC';
+  const weekStartsOn = (((options.weekStartsOn ?? 1) % 7) + 7) % 7;
+  const today = calendarDate(Number(now), timeZone);
+
+  let first: CalendarDate;
+  let next: CalendarDate;
+  switch (period) {
+    case 'daily':
+      first = today;
+      next = addDays(today, 1);
+      break;
+    case 'weekly': {
+      const weekday = new Date(
+        Date.UTC(today.year, today.month - 1, today.day)
+      ).getUTCDay();
+      first = addDays(today, -((weekday - weekStartsOn + 7) % 7));
+      next = addDays(first, 7);
+      break;
+    }
+    case 'monthly':
+      first = { year: today.year, month: today.month, day: 1 };
+      next =
+        today.month === 12
+          ? { year: today.year + 1, month: 1, day: 1 }
+          : { year: today.year, month: today.month + 1, day: 1 };
+      break;
+  }
+
+  return {
+    period,
+    timeZone,
+    start: startOfDay(first, timeZone),
+    end: startOfDay(next, timeZone),
+    startDate: formatDate(first),
+    endDate: formatDate(addDays(next, -1)),
+  };
+}
+
+/**
+ * Analytics query covering a period window. Dates are sent as ISO instants
+ * so the server does not have to know the budget's time zone; end_date is
+ * the last millisecond of the window.
+ */
+export function getPeriodQueryParams(
+  window: BudgetPeriodWindow,
+  base: Partial<UsageAnalyticsQueryParams> = {}
+): UsageAnalyticsQueryParams {
+  return {
+    endpoint_id: base.endpoint_id ?? null,
+    project_id: base.project_id ?? null,
+    success: base.success ?? null,
+    start_date: new Date(window.start).toISOString(),
+    end_date: new Date(window.end - 1).toISOString(),
+  };
+}
+
+/**
+ * Daily usage rows that fall inside a window. Rows are matched on their
+ * calendar date (the first ten characters of `date`).
+ */
+export function filterUsageByWindow(
+  byDate: UsageByDate[],
+  window: BudgetPeriodWindow
+): UsageByDate[] {
+  return byDate.filter(row => {
+    const date = row.date.slice(0, 10);
+    return date >= window.startDate && date <= window.endDate;
+  });
+}
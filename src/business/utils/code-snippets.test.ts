@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { buildEndpointUrl, generateCodeSnippets } from './code-snippets';
+
+const endpoint = {
+  http_method: 'POST' as const,
+  endpoint_name: 'classify',
+  input_schema: {
+    type: 'object',
+    properties: { text: { type: 'string' } },
+    required: ['text'],
+  },
+};
+
+describe('generateCodeSnippets', () => {
+  it('should send the input as a JSON body for POST endpoints', () => {
+    const snippets = generateCodeSnippets(
+      'https://api.example.com/',
+      'acme',
+      'support',
+      endpoint,
+      { text: "It's broken", urgent: true, tags: null }
+    );
+    const url = 'https://api.example.com/api/v1/ai/acme/support/classify';
+
+    expect(snippets.curl).toContain(`curl -X POST '${url}'`);
+    expect(snippets.curl).toContain(`"text": "It'\\''s broken"`);
+    expect(snippets.typescript).toContain(`fetch("${url}", {`);
+    expect(snippets.python).toContain('"urgent": True,');
+    expect(snippets.python).toContain('"tags": None,');
+    expect(snippets.go).toContain('bytes.NewReader(payload)');
+  });
+
+  it('should encode the input as a query parameter for GET endpoints', () => {
+    const snippets = generateCodeSnippets(
+      'https://api.example.com',
+      'acme',
+      'support',
+      { ...endpoint, http_method: 'GET' }
+    );
+
+    expect(snippets.curl).toContain('--data-urlencode \'input={"text":');
+    expect(snippets.typescript).toContain('new URLSearchParams');
+    expect(snippets.python).toContain('params={"input": json.dumps(payload)}');
+    expect(snippets.go).toContain('params.Set("input", input)');
+    expect(buildEndpointUrl('https://x', 'o', 'p', 'e', { a: 1 }, 'GET')).toBe(
+      'https://x/api/v1/ai/o/p/e?input=%7B%22a%22%3A1%7D'
+    );
+  });
+});
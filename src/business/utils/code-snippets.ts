@@ -0,0 +1,274 @@
+/**
+ * Code snippets
+ * Ready-to-paste examples for calling an endpoint from curl, TypeScript,
+ * Python and Go
+ */
+
+import type { Endpoint } from '@sudobility/shapeshyft_types';
+import { generateSampleValue } from './sample-input';
+
+/**
+ * Languages snippets can be generated for
+ */
+export type SnippetLanguage = 'curl' | 'typescript' | 'python' | 'go';
+
+/**
+ * All snippet languages, in display order
+ */
+export const SNIPPET_LANGUAGES: SnippetLanguage[] = [
+  'curl',
+  'typescript',
+  'python',
+  'go',
+];
+
+/**
+ * Endpoint fields a snippet needs
+ */
+export type SnippetEndpoint = Pick<
+  Endpoint,
+  'http_method' | 'endpoint_name' | 'input_schema'
+>;
+
+/**
+ * Resolved request a snippet is rendered from
+ */
+interface SnippetRequest {
+  method: 'GET' | 'POST';
+  /** Endpoint URL without query string */
+  url: string;
+  input: unknown;
+}
+
+/**
+ * URL that executes an endpoint, matching ShapeshyftClient.executeAi. GET
+ * endpoints receive the input as a JSON-encoded `input` query parameter.
+ */
+export function buildEndpointUrl(
+  baseUrl: string,
+  organizationPath: string,
+  projectName: string,
+  endpointName: string,
+  input?: unknown,
+  method: 'GET' | 'POST' = 'POST'
+): string {
+  const url = `${baseUrl.replace(/\/$/, '')}/api/v1/ai/${encodeURIComponent(organizationPath)}/${encodeURIComponent(projectName)}/${encodeURIComponent(endpointName)}`;
+  if (method === 'GET' && input !== undefined && input !== null) {
+    return `${url}?${new URLSearchParams({ input: JSON.stringify(input) })}`;
+  }
+  return url;
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Indent every line after the first
+ */
+function indentTail(text: string, indent: string): string {
+  return text.replace(/\n/g, `\n${indent}`);
+}
+
+/**
+ * Python literal for a JSON value
+ */
+function toPython(value: unknown, indent = ''): string {
+  const inner = `${indent}    `;
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    const items = value.map(item => `${inner}${toPython(item, inner)},`);
+    return `[\n${items.join('\n')}\n${indent}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  const items = entries.map(
+    ([key, item]) => `${inner}${JSON.stringify(key)}: ${toPython(item, inner)},`
+  );
+  return `{\n${items.join('\n')}\n${indent}}`;
+}
+
+/**
+ * Go string literal, raw when possible
+ */
+function toGoString(value: string): string {
+  return value.includes('`') ? JSON.stringify(value) : `\`${value}\``;
+}
+
+function renderCurl({ method, url, input }: SnippetRequest): string {
+  const json = JSON.stringify(input);
+  if (method === 'GET') {
+    return [
+      `curl -G ${shellQuote(url)} \\`,
+      `  --data-urlencode ${shellQuote(`input=${json}`)}`,
+    ].join('\n');
+  }
+  return [
+    `curl -X POST ${shellQuote(url)} \\`,
+    `  -H 'Content-Type: application/json' \\`,
+    `  -d ${shellQuote(JSON.stringify(input, null, 2))}`,
+  ].join('\n');
+}
+
+function renderTypeScript({ method, url, input }: SnippetRequest): string {
+  const lines = [`const input = ${JSON.stringify(input, null, 2)};`, ''];
+  if (method === 'GET') {
+    lines.push(
+      'const params = new URLSearchParams({ input: JSON.stringify(input) });',
+      `const response = await fetch(\`${url}?\${params}\`);`
+    );
+  } else {
+    lines.push(
+      `const response = await fetch(${JSON.stringify(url)}, {`,
+      "  method: 'POST',",
+      "  headers: { 'Content-Type': 'application/json' },",
+      '  body: JSON.stringify(input),',
+      '});'
+    );
+  }
+  lines.push(
+    'if (!response.ok) {',
+    '  throw new Error(`Request failed: ${response.status}`);',
+    '}',
+    'const result = await response.json();',
+    'console.log(result);'
+  );
+  return lines.join('\n');
+}
+
+function renderPython({ method, url, input }: SnippetRequest): string {
+  const lines =
+    method === 'GET' ? ['import json', 'import requests'] : ['import requests'];
+  lines.push('', `payload = ${toPython(input)}`, '');
+  if (method === 'GET') {
+    lines.push(
+      'response = requests.get(',
+      `    ${JSON.stringify(url)},`,
+      '    params={"input": json.dumps(payload)},',
+      ')'
+    );
+  } else {
+    lines.push(
+      `response = requests.post(${JSON.stringify(url)}, json=payload)`
+    );
+  }
+  lines.push('response.raise_for_status()', 'print(response.json())');
+  return lines.join('\n');
+}
+
+function renderGo({ method, url, input }: SnippetRequest): string {
+  const json = toGoString(JSON.stringify(input, null, 2));
+  const imports =
+    method === 'GET'
+      ? ['"fmt"', '"io"', '"net/http"', '"net/url"']
+      : ['"bytes"', '"fmt"', '"io"', '"net/http"'];
+  const request =
+    method === 'GET'
+      ? [
+          `\tinput := ${indentTail(json, '\t')}`,
+          '\tparams := url.Values{}',
+          '\tparams.Set("input", input)',
+          `\tresp, err := http.Get(${JSON.stringify(`${url}?`)} + params.Encode())`,
+        ]
+      : [
+          `\tpayload := []byte(${indentTail(json, '\t')})`,
+          `\tresp, err := http.Post(${JSON.stringify(url)}, "application/json", bytes.NewReader(payload))`,
+        ];
+  return [
+    'package main',
+    '',
+    'import (',
+    ...imports.map(name => `\t${name}`),
+    ')',
+    '',
+    'func main() {',
+    ...request,
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tdefer resp.Body.Close()',
+    '',
+    '\tbody, err := io.ReadAll(resp.Body)',
+    '\tif err != nil {',
+    '\t\tpanic(err)',
+    '\t}',
+    '\tfmt.Println(resp.Status, string(body))',
+    '}',
+  ].join('\n');
+}
+
+const RENDERERS: Record<SnippetLanguage, (request: SnippetRequest) => string> =
+  {
+    curl: renderCurl,
+    typescript: renderTypeScript,
+    python: renderPython,
+    go: renderGo,
+  };
+
+/**
+ * Generate a snippet calling an endpoint in one language. The sample input
+ * defaults to one generated from the endpoint's input_schema.
+ */
+export function generateCodeSnippet(
+  language: SnippetLanguage,
+  baseUrl: string,
+  organizationPath: string,
+  projectName: string,
+  endpoint: SnippetEndpoint,
+  sampleInput?: unknown
+): string {
+  const input =
+    sampleInput !== undefined
+      ? sampleInput
+      : endpoint.input_schema
+        ? generateSampleValue(endpoint.input_schema)
+        : {};
+  return RENDERERS[language]({
+    method: endpoint.http_method === 'GET' ? 'GET' : 'POST',
+    url: buildEndpointUrl(
+      baseUrl,
+      organizationPath,
+      projectName,
+      endpoint.endpoint_name
+    ),
+    input,
+  });
+}
+
+/**
+ * Generate snippets calling an endpoint in every supported language
+ */
+export function generateCodeSnippets(
+  baseUrl: string,
+  organizationPath: string,
+  projectName: string,
+  endpoint: SnippetEndpoint,
+  sampleInput?: unknown
+): Record<SnippetLanguage, string> {
+  return Object.fromEntries(
+    SNIPPET_LANGUAGES.map(language => [
+      language,
+      generateCodeSnippet(
+        language,
+        baseUrl,
+        organizationPath,
+        projectName,
+        endpoint,
+        sampleInput
+      ),
+    ])
+  ) as Record<SnippetLanguage, string>;
+}
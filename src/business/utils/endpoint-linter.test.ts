@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { lintEndpoint } from './endpoint-linter';
+import { ALL_TEMPLATES } from '../templates/endpoint-templates';
+
+describe('lintEndpoint', () => {
+  it('should pass every built-in template without warnings', () => {
+    for (const template of ALL_TEMPLATES) {
+      for (const endpoint of template.endpoints) {
+        const result = lintEndpoint(endpoint);
+        expect(
+          result.findings.filter(f => f.severity !== 'info'),
+          endpoint.endpoint_name
+        ).toEqual([]);
+        expect(result.passed).toBe(true);
+      }
+    }
+  });
+
+  it('should report each rule with its severity', () => {
+    const result = lintEndpoint(
+      {
+        endpoint_name: 'Score_Lead',
+        instructions:
+          'Score the lead using `company_size` and {{budget}}. Also fill {lead_notes} with snake_case keys.',
+        context: 'x'.repeat(50),
+        input_schema: {
+          type: 'object',
+          properties: {
+            company_size: { type: 'integer', description: 'Employees' },
+            region: { type: 'string', enum: ['emea'] },
+          },
+        },
+        output_schema: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', description: 'Lead score' },
+            tier: { type: 'string', description: 'Sales tier' },
+          },
+          required: ['score', 'tier'],
+        },
+      },
+      { maxContextLength: 40 }
+    );
+
+    expect(result.findings.map(f => [f.rule, f.severity, f.path])).toEqual([
+      ['invalid-endpoint-name', 'error', '/endpoint_name'],
+      ['unknown-field-reference', 'warning', '/instructions'],
+      ['unknown-field-reference', 'warning', '/instructions'],
+      [
+        'unmentioned-required-output',
+        'warning',
+        '/output_schema/properties/tier',
+      ],
+      ['context-too-long', 'warning', '/context'],
+      ['missing-description', 'warning', '/input_schema/properties/region'],
+      ['single-value-enum', 'warning', '/input_schema/properties/region/enum'],
+    ]);
+    expect(result.findings[1].message).toContain('"budget"');
+    expect(result.findings[2].message).toContain('"lead_notes"');
+    expect(result.passed).toBe(false);
+    expect(result.errors).toBe(1);
+  });
+
+  it('should flag empty instructions', () => {
+    const result = lintEndpoint({
+      endpoint_name: 'noop',
+      instructions: '  ',
+      input_schema: null,
+      output_schema: null,
+    });
+    expect(result.findings.map(f => f.rule)).toEqual(['empty-instructions']);
+  });
+});
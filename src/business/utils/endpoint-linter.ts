@@ -0,0 +1,273 @@
+/**
+ * Endpoint linter
+ * Static checks on an endpoint's name, instructions, context and schemas
+ */
+
+import type {
+  EndpointCreateRequest,
+  JsonSchema,
+} from '@sudobility/shapeshyft_types';
+import { escapeJsonPointer } from './json-schema-validator';
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type EndpointLintRule =
+  | 'invalid-endpoint-name'
+  | 'empty-instructions'
+  | 'unknown-field-reference'
+  | 'unmentioned-required-output'
+  | 'missing-description'
+  | 'single-value-enum'
+  | 'context-too-long';
+
+/**
+ * A single lint finding
+ */
+export interface EndpointLintFinding {
+  rule: EndpointLintRule;
+  severity: LintSeverity;
+  message: string;
+  /** JSON Pointer into the endpoint, e.g. /output_schema/properties/score */
+  path: string;
+}
+
+/**
+ * Result of linting one endpoint
+ */
+export interface EndpointLintResult {
+  findings: EndpointLintFinding[];
+  errors: number;
+  warnings: number;
+  /** No error-level findings */
+  passed: boolean;
+}
+
+/**
+ * Options for lintEndpoint
+ */
+export interface EndpointLintOptions {
+  /** Context length (characters) above which a warning is reported (default: 8000) */
+  maxContextLength?: number;
+  /** Rules to skip */
+  disabledRules?: EndpointLintRule[];
+}
+
+/**
+ * Endpoint fields the linter reads; accepts an Endpoint, an
+ * EndpointCreateRequest or a template
+ */
+export type LintableEndpoint = Pick<
+  EndpointCreateRequest,
+  'endpoint_name' | 'input_schema' | 'output_schema'
+> & {
+  instructions?: EndpointCreateRequest['instructions'];
+  context?: EndpointCreateRequest['context'];
+};
+
+const DEFAULT_MAX_CONTEXT_LENGTH = 8000;
+
+const ENDPOINT_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Explicit field references in instructions: `name`, {{name}} and {name}.
+ * Unmarked words are prose, even when they look like identifiers.
+ */
+const REFERENCE_PATTERNS = [
+  /`([A-Za-z_][\w.]*)`/g,
+  /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g,
+  /\{([A-Za-z_][\w.]*)\}/g,
+];
+
+/**
+ * Property names declared anywhere in a schema
+ */
+function collectFieldNames(schema: JsonSchema | null | undefined): Set<string> {
+  const names = new Set<string>();
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    if (record.properties && typeof record.properties === 'object') {
+      for (const key of Object.keys(record.properties)) {
+        names.add(key);
+      }
+    }
+    for (const value of Object.values(record)) {
+      visit(value);
+    }
+  };
+  visit(schema);
+  return names;
+}
+
+function referencedFields(instructions: string): Set<string> {
+  const references = new Set<string>();
+  for (const pattern of REFERENCE_PATTERNS) {
+    for (const match of instructions.matchAll(pattern)) {
+      references.add(match[1]);
+    }
+  }
+  return references;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+function commonPrefix(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Whether instructions mention a field by name or by a close word form
+ * (e.g. "translation" for translations, "extract" for extracted)
+ */
+function isMentioned(field: string, instructionWords: string[]): boolean {
+  const tokens = words(field.replace(/([a-z0-9])([A-Z])/g, '$1 $2'));
+  return tokens.every(token => {
+    const needed = Math.min(token.length, Math.max(4, token.length - 3));
+    return instructionWords.some(word => commonPrefix(word, token) >= needed);
+  });
+}
+
+function lintSchema(
+  schema: JsonSchema,
+  path: string,
+  depth: number,
+  report: (finding: EndpointLintFinding) => void
+): void {
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const propertyPath = `${path}/properties/${escapeJsonPointer(key)}`;
+    if (
+      typeof property.description !== 'string' ||
+      property.description.trim() === ''
+    ) {
+      // Top-level fields are what the model sees first; nested ones are hints
+      report({
+        rule: 'missing-description',
+        severity: depth === 0 ? 'warning' : 'info',
+        message: `Property "${key}" has no description`,
+        path: propertyPath,
+      });
+    }
+    lintSchema(property, propertyPath, depth + 1, report);
+  }
+
+  if (Array.isArray(schema.enum) && schema.enum.length === 1) {
+    report({
+      rule: 'single-value-enum',
+      severity: 'warning',
+      message: `Enum has a single value ${JSON.stringify(schema.enum[0])}; use const or remove the field`,
+      path: `${path}/enum`,
+    });
+  }
+
+  if (schema.items) {
+    lintSchema(schema.items, `${path}/items`, depth + 1, report);
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+    const variants = schema[keyword];
+    if (Array.isArray(variants)) {
+      variants.forEach((variant: JsonSchema, index: number) =>
+        lintSchema(variant, `${path}/${keyword}/${index}`, depth, report)
+      );
+    }
+  }
+}
+
+/**
+ * Lint an endpoint definition. Findings are ordered by field: name,
+ * instructions, context, then input and output schemas.
+ */
+export function lintEndpoint(
+  endpoint: LintableEndpoint,
+  options: EndpointLintOptions = {}
+): EndpointLintResult {
+  const maxContextLength =
+    options.maxContextLength ?? DEFAULT_MAX_CONTEXT_LENGTH;
+  const disabled = new Set(options.disabledRules ?? []);
+  const findings: EndpointLintFinding[] = [];
+  const report = (finding: EndpointLintFinding) => {
+    if (!disabled.has(finding.rule)) {
+      findings.push(finding);
+    }
+  };
+
+  if (!ENDPOINT_NAME_PATTERN.test(endpoint.endpoint_name)) {
+    report({
+      rule: 'invalid-endpoint-name',
+      severity: 'error',
+      message: `Endpoint name "${endpoint.endpoint_name}" must be lowercase letters, digits and single hyphens`,
+      path: '/endpoint_name',
+    });
+  }
+
+  const instructions = endpoint.instructions?.trim() ?? '';
+  if (!instructions) {
+    report({
+      rule: 'empty-instructions',
+      severity: 'error',
+      message: 'Instructions are empty',
+      path: '/instructions',
+    });
+  } else {
+    const known = new Set([
+      ...collectFieldNames(endpoint.input_schema),
+      ...collectFieldNames(endpoint.output_schema),
+    ]);
+    for (const reference of referencedFields(instructions)) {
+      const fields = reference.split('.');
+      const unknown = fields.find(field => !known.has(field));
+      if (unknown !== undefined) {
+        report({
+          rule: 'unknown-field-reference',
+          severity: 'warning',
+          message: `Instructions reference "${reference}", which is not a field in the input or output schema`,
+          path: '/instructions',
+        });
+      }
+    }
+
+    const instructionWords = words(instructions);
+    for (const field of endpoint.output_schema?.required ?? []) {
+      if (!isMentioned(field, instructionWords)) {
+        report({
+          rule: 'unmentioned-required-output',
+          severity: 'warning',
+          message: `Required output field "${field}" is never mentioned in the instructions`,
+          path: `/output_schema/properties/${escapeJsonPointer(field)}`,
+        });
+      }
+    }
+  }
+
+  const context = endpoint.context ?? '';
+  if (context.length > maxContextLength) {
+    report({
+      rule: 'context-too-long',
+      severity: 'warning',
+      message: `Context is ${context.length} characters; keep it under ${maxContextLength}`,
+      path: '/context',
+    });
+  }
+
+  if (endpoint.input_schema) {
+    lintSchema(endpoint.input_schema, '/input_schema', 0, report);
+  }
+  if (endpoint.output_schema) {
+    lintSchema(endpoint.output_schema, '/output_schema', 0, report);
+  }
+
+  const errors = findings.filter(f => f.severity === 'error').length;
+  const warnings = findings.filter(f => f.severity === 'warning').length;
+  return { findings, errors, warnings, passed: errors === 0 };
+}
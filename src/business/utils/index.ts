@@ -0,0 +1,204 @@
+export {
+  type SchemaNode,
+  type SchemaValidationError,
+  type SchemaValidationResult,
+  type SchemaValidationOptions,
+  validateJsonSchema,
+  formatSchemaError,
+  escapeJsonPointer,
+  parseJsonPointer,
+  isJsonEqual,
+  getJsonType,
+} from './json-schema-validator';
+export { queryJsonPath } from './json-path';
+export {
+  type TestAssertion,
+  type AssertionResult,
+  evaluateAssertion,
+  evaluateAssertions,
+  extractModelOutput,
+  getFieldValue,
+  isTestPassing,
+} from './test-assertions';
+export {
+  type JsonChange,
+  type TestResultDiff,
+  type CaseChangeStatus,
+  type CaseDiff,
+  type SuiteRunDiff,
+  diffJson,
+  diffTestResults,
+  diffSuiteReports,
+} from './test-result-diff';
+export {
+  type TestReportEntry,
+  type TestReport,
+  type TestReportOptions,
+  TEST_REPORT_VERSION,
+  buildTestReportEntries,
+  buildTestReport,
+  toJsonReport,
+  toCsvReport,
+  toJUnitXml,
+} from './test-report';
+export {
+  type LoadTestExecutor,
+  type LoadTestOptions,
+  type LoadTestReport,
+  type LatencyStats,
+  runLoadTest,
+  computeLatencyStats,
+  percentile,
+} from './load-test';
+export {
+  type AbortOptions,
+  type AbortRegistry,
+  RequestCancelledError,
+  RequestTimeoutError,
+  runWithAbort,
+  createAbortRegistry,
+} from './abortable';
+export {
+  type RetryableErrorClass,
+  type RetryPolicy,
+  type RetryAttempt,
+  type ExecuteWithRetryOptions,
+  type RetryingNetworkClientOptions,
+  type HttpResponseInfo,
+  type ResponseTracker,
+  DEFAULT_RETRY_POLICY,
+  classifyStatus,
+  classifyErrorMessage,
+  parseRetryAfter,
+  retryAfterFromHeaders,
+  computeRetryDelay,
+  executeWithRetry,
+  createRetryingNetworkClient,
+  createResponseTracker,
+} from './retry';
+export {
+  type ModelRef,
+  type ModelPricing,
+  type PricingCatalog,
+  DEFAULT_MODEL_PRICING,
+  createPricingCatalog,
+  findModelPricing,
+  estimateCostCents,
+} from './pricing';
+export {
+  type SampleOptions,
+  createSeededRandom,
+  generateSampleValue,
+  generateSamples,
+} from './sample-input';
+export {
+  type FuzzCategory,
+  type FuzzCase,
+  type FuzzOptions,
+  type FuzzCaseResult,
+  type FuzzReport,
+  generateFuzzCases,
+  runFuzzCases,
+} from './schema-fuzzer';
+export {
+  type SnippetLanguage,
+  type SnippetEndpoint,
+  SNIPPET_LANGUAGES,
+  buildEndpointUrl,
+  generateCodeSnippet,
+  generateCodeSnippets,
+} from './code-snippets';
+export { YamlParseError, parseYaml, stringifyYaml } from './yaml';
+export {
+  type OpenApiDocument,
+  type OpenApiExportOptions,
+  exportOpenApi,
+  exportOpenApiJson,
+  exportOpenApiYaml,
+} from './openapi-export';
+export {
+  type OpenApiImportOptions,
+  type OpenApiImportResult,
+  type SkippedOperation,
+  OpenApiImportError,
+  importOpenApi,
+  parseOpenApiDocument,
+} from './openapi-import';
+export {
+  type CodegenEndpoint,
+  type TypeCodegenOptions,
+  toTypeName,
+  generateTypeScriptType,
+  generateZodSchema,
+  generateEndpointTypes,
+  generateProjectTypes,
+} from './type-codegen';
+export { type SchemaInferenceOptions, inferSchema } from './schema-inference';
+export {
+  type SchemaDirection,
+  type SchemaChangeKind,
+  type SchemaChangeEffect,
+  type SchemaChange,
+  type SchemaCompatibilityReport,
+  compareSchemas,
+  checkSchemaCompatibility,
+} from './schema-compat';
+export {
+  type LintSeverity,
+  type EndpointLintRule,
+  type EndpointLintFinding,
+  type EndpointLintResult,
+  type EndpointLintOptions,
+  type LintableEndpoint,
+  lintEndpoint,
+} from './endpoint-linter';
+export {
+  type TokenCounter,
+  type TokenizerHeuristic,
+  type PromptEndpoint,
+  type TokenEstimateRequest,
+  type TokenEstimatorOptions,
+  type TokenEstimate,
+  DEFAULT_TOKENIZER_HEURISTICS,
+  createHeuristicTokenCounter,
+  buildOfflinePrompt,
+  estimateTokens,
+  estimateTokenUsage,
+} from './token-estimator';
+export {
+  type BudgetPeriodOptions,
+  type BudgetPeriodWindow,
+  getBudgetPeriodWindow,
+  getPeriodQueryParams,
+  filterUsageByWindow,
+} from './budget-periods';
+export {
+  type BudgetScope,
+  type EndpointOwnership,
+  type EndpointDirectory,
+  type BudgetAttribution,
+  buildEndpointDirectory,
+  isScopedBudget,
+  attributeSpend,
+} from './budget-attribution';
+export {
+  type ForecastModel,
+  type SpendForecastOptions,
+  type SpendForecast,
+  forecastSpend,
+  predictExhaustion,
+} from './spend-forecast';
+export {
+  type BudgetNotifier,
+  type NotifiedSeverity,
+  type BudgetNotificationFailure,
+  type BudgetNotificationResult,
+  type EmailNotifierOptions,
+  compareSeverity,
+  selectBudgetNotifications,
+  notifyBudgetAlerts,
+  createToastNotifier,
+  createBrowserNotifier,
+  createWebhookNotifier,
+  createEmailNotifier,
+} from './budget-notifiers';
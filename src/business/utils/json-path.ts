@@ -0,0 +1,155 @@
+/**
+ * JSONPath queries
+ * Minimal JSONPath evaluator for test assertions
+ */
+
+/**
+ * Parsed JSONPath segment
+ */
+type JsonPathSegment =
+  | { kind: 'key'; key: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; key: string | null };
+
+/**
+ * Parse a JSONPath expression such as `$.items[0].name`, `$['a b']`,
+ * `$.items[*]` or `$..name`
+ */
+function parseJsonPath(expression: string): JsonPathSegment[] {
+  const source = expression.trim();
+  if (!source.startsWith('$')) {
+    throw new Error(`JSONPath must start with "$": ${expression}`);
+  }
+  const segments: JsonPathSegment[] = [];
+  let i = 1;
+
+  const readName = (): string => {
+    const match = /^[A-Za-z0-9_$-]+/.exec(source.slice(i));
+    if (!match) {
+      throw new Error(`Invalid JSONPath at position ${i}: ${expression}`);
+    }
+    i += match[0].length;
+    return match[0];
+  };
+
+  while (i < source.length) {
+    if (source.startsWith('..', i)) {
+      i += 2;
+      if (source[i] === '*') {
+        i += 1;
+        segments.push({ kind: 'descendant', key: null });
+      } else {
+        segments.push({ kind: 'descendant', key: readName() });
+      }
+    } else if (source[i] === '.') {
+      i += 1;
+      if (source[i] === '*') {
+        i += 1;
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'key', key: readName() });
+      }
+    } else if (source[i] === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) {
+        throw new Error(`Unclosed bracket in JSONPath: ${expression}`);
+      }
+      const inner = source.slice(i + 1, end).trim();
+      i = end + 1;
+      if (inner === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: Number(inner) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: 'key', key: inner.slice(1, -1) });
+      } else {
+        throw new Error(`Unsupported JSONPath selector [${inner}]`);
+      }
+    } else {
+      throw new Error(`Invalid JSONPath at position ${i}: ${expression}`);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Child values of an object or array
+ */
+function childrenOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.values(value as Record<string, unknown>);
+  }
+  return [];
+}
+
+/**
+ * Value plus all nested values, depth first
+ */
+function descendantsOf(value: unknown): unknown[] {
+  const result: unknown[] = [value];
+  for (const child of childrenOf(value)) {
+    result.push(...descendantsOf(child));
+  }
+  return result;
+}
+
+/**
+ * Apply one segment to a set of nodes
+ */
+function applySegment(nodes: unknown[], segment: JsonPathSegment): unknown[] {
+  const result: unknown[] = [];
+  for (const node of nodes) {
+    switch (segment.kind) {
+      case 'key':
+        if (
+          node !== null &&
+          typeof node === 'object' &&
+          !Array.isArray(node) &&
+          Object.prototype.hasOwnProperty.call(node, segment.key)
+        ) {
+          result.push((node as Record<string, unknown>)[segment.key]);
+        }
+        break;
+
+      case 'index':
+        if (Array.isArray(node)) {
+          const index =
+            segment.index < 0 ? node.length + segment.index : segment.index;
+          if (index >= 0 && index < node.length) {
+            result.push(node[index]);
+          }
+        }
+        break;
+
+      case 'wildcard':
+        result.push(...childrenOf(node));
+        break;
+
+      case 'descendant':
+        if (segment.key === null) {
+          result.push(...descendantsOf(node).slice(1));
+        } else {
+          result.push(
+            ...applySegment(descendantsOf(node), {
+              kind: 'key',
+              key: segment.key,
+            })
+          );
+        }
+        break;
+    }
+  }
+  return result;
+}
+
+/**
+ * Evaluate a JSONPath expression and return every matching value
+ */
+export function queryJsonPath(value: unknown, expression: string): unknown[] {
+  return parseJsonPath(expression).reduce<unknown[]>(applySegment, [value]);
+}
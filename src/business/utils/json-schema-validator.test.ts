@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+import { formatSchemaError, validateJsonSchema } from './json-schema-validator';
+
+describe('validateJsonSchema', () => {
+  it('should report type errors with a JSON Pointer path', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { text: { type: 'string' } },
+    };
+    const result = validateJsonSchema({ text: 5 }, schema);
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toMatchObject({
+      path: '/text',
+      keyword: 'type',
+      expected: 'string',
+      schemaPath: '/properties/text/type',
+    });
+    expect(formatSchemaError(result.errors[0])).toBe(
+      '/text: expected string, got integer'
+    );
+  });
+
+  it('should reject null unless the type allows it', () => {
+    expect(validateJsonSchema(null, { type: 'string' }).valid).toBe(false);
+    expect(validateJsonSchema(null, { type: ['string', 'null'] }).valid).toBe(
+      true
+    );
+  });
+
+  it('should report missing required properties', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { a: { type: 'string' }, b: { type: 'string' } },
+      required: ['a', 'b'],
+    };
+    const result = validateJsonSchema({ a: 'x' }, schema);
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: '', keyword: 'required', expected: 'b' }),
+    ]);
+  });
+
+  it('should validate string keywords', () => {
+    const schema: JsonSchema = {
+      type: 'string',
+      minLength: 2,
+      pattern: '^[a-z]+$',
+      format: 'email',
+    };
+    const keywords = validateJsonSchema('A', schema).errors.map(e => e.keyword);
+    expect(keywords).toEqual(['minLength', 'pattern', 'format']);
+    expect(validateJsonSchema('2024-02-30', { format: 'date' }).valid).toBe(
+      false
+    );
+    expect(
+      validateJsonSchema('2024-02-29T10:00:00Z', { format: 'date-time' }).valid
+    ).toBe(true);
+  });
+
+  it('should validate array keywords', () => {
+    const schema: JsonSchema = {
+      type: 'array',
+      items: { type: 'integer' },
+      minItems: 1,
+      maxItems: 3,
+      uniqueItems: true,
+    };
+    expect(validateJsonSchema([1, 2], schema).valid).toBe(true);
+    expect(validateJsonSchema([], schema).errors[0].keyword).toBe('minItems');
+    expect(validateJsonSchema([1, 1], schema).errors[0].keyword).toBe(
+      'uniqueItems'
+    );
+    expect(validateJsonSchema([1, 'x'], schema).errors[0].path).toBe('/1');
+  });
+
+  it('should enforce additionalProperties and const', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { kind: { const: 'a' } },
+      additionalProperties: false,
+    };
+    const result = validateJsonSchema({ kind: 'b', extra: 1 }, schema);
+    expect(result.errors.map(e => [e.path, e.keyword])).toEqual([
+      ['/kind', 'const'],
+      ['/extra', 'additionalProperties'],
+    ]);
+  });
+
+  it('should support anyOf, oneOf and allOf', () => {
+    const anyOf: JsonSchema = { anyOf: [{ type: 'string' }, { type: 'null' }] };
+    expect(validateJsonSchema(null, anyOf).valid).toBe(true);
+    expect(validateJsonSchema(1, anyOf).errors[0].keyword).toBe('anyOf');
+
+    const oneOf: JsonSchema = {
+      oneOf: [{ type: 'number' }, { type: 'integer' }],
+    };
+    expect(validateJsonSchema(1.5, oneOf).valid).toBe(true);
+    expect(validateJsonSchema(1, oneOf).errors[0].keyword).toBe('oneOf');
+
+    const allOf: JsonSchema = { allOf: [{ minimum: 0 }, { maximum: 10 }] };
+    expect(validateJsonSchema(11, allOf).errors[0].keyword).toBe('maximum');
+  });
+
+  it('should resolve $ref into $defs, including recursive schemas', () => {
+    const schema: JsonSchema = {
+      $ref: '#/$defs/node',
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } },
+          },
+          required: ['name'],
+        },
+      },
+    };
+    expect(
+      validateJsonSchema({ name: 'a', children: [{ name: 'b' }] }, schema).valid
+    ).toBe(true);
+    const result = validateJsonSchema({ name: 'a', children: [{}] }, schema);
+    expect(result.errors[0]).toMatchObject({
+      path: '/children/0',
+      keyword: 'required',
+    });
+  });
+
+  it('should stop reference cycles through combinators', () => {
+    expect(validateJsonSchema('x', { anyOf: [{ $ref: '#' }] }).valid).toBe(
+      true
+    );
+    expect(
+      validateJsonSchema(1, { oneOf: [{ $ref: '#' }, { type: 'string' }] })
+        .valid
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,805 @@
+/**
+ * JSON Schema validator
+ * Validates values against JSON Schema (draft 2020-12 subset) with structured errors
+ */
+
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+
+/**
+ * A schema node - JSON Schema allows `true`/`false` as schemas
+ */
+export type SchemaNode = JsonSchema | boolean;
+
+/**
+ * Structured validation error
+ */
+export interface SchemaValidationError {
+  /** JSON Pointer (RFC 6901) to the failing value, '' for the root */
+  path: string;
+  /** JSON Pointer into the schema to the failing keyword */
+  schemaPath: string;
+  /** The keyword that failed (e.g. 'type', 'required', 'pattern') */
+  keyword: string;
+  /** The value the keyword expected (type name, limit, enum values, ...) */
+  expected: unknown;
+  /** Human readable description of the failure */
+  message: string;
+}
+
+/**
+ * Result of validating a value against a schema
+ */
+export interface SchemaValidationResult {
+  valid: boolean;
+  errors: SchemaValidationError[];
+}
+
+/**
+ * Options for validateJsonSchema
+ */
+export interface SchemaValidationOptions {
+  /** Validate the `format` keyword (default: true) */
+  validateFormats?: boolean;
+}
+
+/**
+ * Format checkers for the `format` keyword. Unknown formats are ignored.
+ */
+const FORMAT_CHECKERS: Record<string, (value: string) => boolean> = {
+  email: value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  date: value => isValidDate(value),
+  time: value =>
+    /^([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)$/i.test(
+      value
+    ),
+  'date-time': value => {
+    const match =
+      /^(\d{4}-\d{2}-\d{2})[Tt ]([01]\d|2[0-3]):[0-5]\d:([0-5]\d|60)(\.\d+)?(Z|[+-]([01]\d|2[0-3]):[0-5]\d)$/i.exec(
+        value
+      );
+    return match !== null && isValidDate(match[1]);
+  },
+  uri: value => /^[a-z][a-z0-9+.-]*:[^\s]*$/i.test(value),
+  uuid: value =>
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(
+      value
+    ),
+  ipv4: value =>
+    /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/.test(
+      value
+    ),
+  ipv6: value => /^[0-9a-f:.]+$/i.test(value) && value.includes(':'),
+  hostname: value =>
+    value.length <= 253 &&
+    /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i.test(
+      value
+    ),
+  regex: value => compilePattern(value) !== null,
+};
+
+/**
+ * Check that a YYYY-MM-DD string is a real calendar date
+ */
+function isValidDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return false;
+  }
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+  );
+}
+
+/**
+ * Compile a schema pattern, returning null when it is not a valid regex
+ */
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'u');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Escape a single JSON Pointer reference token
+ */
+export function escapeJsonPointer(token: string | number): string {
+  return String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Split a JSON Pointer into unescaped reference tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Structural equality for JSON values
+ */
+export function isJsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== typeof b || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a)) {
+    return (
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => isJsonEqual(item, b[index]))
+    );
+  }
+  if (typeof a === 'object') {
+    if (Array.isArray(b)) {
+      return false;
+    }
+    const aObj = a as Record<string, unknown>;
+    const bObj = b as Record<string, unknown>;
+    const aKeys = Object.keys(aObj).filter(k => aObj[k] !== undefined);
+    const bKeys = Object.keys(bObj).filter(k => bObj[k] !== undefined);
+    return (
+      aKeys.length === bKeys.length &&
+      aKeys.every(key => key in bObj && isJsonEqual(aObj[key], bObj[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+export function getJsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+/**
+ * Check whether a value matches a single JSON Schema type name
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonType(value);
+  if (type === 'number') {
+    return actual === 'number' || actual === 'integer';
+  }
+  return actual === type;
+}
+
+/**
+ * Length of a string in Unicode code points, as JSON Schema defines it
+ */
+function codePointLength(value: string): number {
+  return Array.from(value).length;
+}
+
+/**
+ * Format a value for an error message
+ */
+function describe(value: unknown): string {
+  return JSON.stringify(value) ?? String(value);
+}
+
+/**
+ * Internal validation context
+ */
+interface ValidationContext {
+  root: SchemaNode;
+  options: Required<SchemaValidationOptions>;
+  /** $ref/instance pairs being evaluated, to stop reference cycles */
+  refStack: Set<string>;
+}
+
+/**
+ * Resolve a local `$ref` against the root schema
+ */
+function resolveRef(ref: string, root: SchemaNode): SchemaNode | undefined {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+  let node: unknown = root;
+  for (const token of parseJsonPointer(decodeURIComponent(ref.slice(1)))) {
+    if (node === null || typeof node !== 'object') {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[token];
+  }
+  if (
+    typeof node === 'boolean' ||
+    (node !== null && typeof node === 'object')
+  ) {
+    return node as SchemaNode;
+  }
+  return undefined;
+}
+
+/**
+ * Validate a value against a schema node, appending errors to `errors`
+ */
+function validateNode(
+  value: unknown,
+  schema: SchemaNode,
+  path: string,
+  schemaPath: string,
+  ctx: ValidationContext,
+  errors: SchemaValidationError[]
+): void {
+  const push = (
+    keyword: string,
+    expected: unknown,
+    message: string,
+    errorPath: string = path
+  ) => {
+    errors.push({
+      path: errorPath,
+      schemaPath: `${schemaPath}/${keyword}`,
+      keyword,
+      expected,
+      message,
+    });
+  };
+
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    errors.push({
+      path,
+      schemaPath,
+      keyword: 'false',
+      expected: false,
+      message: 'no value is allowed here',
+    });
+    return;
+  }
+
+  // References
+  if (typeof schema.$ref === 'string') {
+    const ref = schema.$ref;
+    const target = resolveRef(ref, ctx.root);
+    if (target === undefined) {
+      push('$ref', ref, `cannot resolve reference "${ref}"`);
+    } else {
+      const key = `${ref}|${path}`;
+      if (!ctx.refStack.has(key)) {
+        ctx.refStack.add(key);
+        validateNode(value, target, path, `${schemaPath}/$ref`, ctx, errors);
+        ctx.refStack.delete(key);
+      }
+    }
+  }
+
+  // Type
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type)
+      ? (schema.type as string[])
+      : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      push(
+        'type',
+        schema.type,
+        `expected ${types.join(' or ')}, got ${value === undefined ? 'undefined' : getJsonType(value)}`
+      );
+      // Other keywords are meaningless against the wrong type
+      return;
+    }
+  }
+
+  if (value === undefined) {
+    return;
+  }
+
+  // Generic keywords
+  if (Array.isArray(schema.enum)) {
+    if (!schema.enum.some(option => isJsonEqual(option, value))) {
+      push(
+        'enum',
+        schema.enum,
+        `value ${describe(value)} is not one of [${schema.enum.map(describe).join(', ')}]`
+      );
+    }
+  }
+  if ('const' in schema && schema.const !== undefined) {
+    if (!isJsonEqual(schema.const, value)) {
+      push('const', schema.const, `value must be ${describe(schema.const)}`);
+    }
+  }
+
+  // Numbers
+  if (typeof value === 'number') {
+    validateNumber(value, schema, push);
+  }
+
+  // Strings
+  if (typeof value === 'string') {
+    validateString(value, schema, ctx, push);
+  }
+
+  // Arrays
+  if (Array.isArray(value)) {
+    validateArray(value, schema, path, schemaPath, ctx, errors, push);
+  }
+
+  // Objects
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    validateObject(
+      value as Record<string, unknown>,
+      schema,
+      path,
+      schemaPath,
+      ctx,
+      errors,
+      push
+    );
+  }
+
+  // Combinators
+  validateCombinators(value, schema, path, schemaPath, ctx, errors, push);
+}
+
+type PushError = (
+  keyword: string,
+  expected: unknown,
+  message: string,
+  errorPath?: string
+) => void;
+
+/**
+ * Numeric keywords
+ */
+function validateNumber(
+  value: number,
+  schema: JsonSchema,
+  push: PushError
+): void {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } =
+    schema;
+  if (typeof minimum === 'number' && value < minimum) {
+    push('minimum', minimum, `value ${value} is less than minimum ${minimum}`);
+  }
+  if (typeof maximum === 'number' && value > maximum) {
+    push('maximum', maximum, `value ${value} exceeds maximum ${maximum}`);
+  }
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+    push(
+      'exclusiveMinimum',
+      exclusiveMinimum,
+      `value ${value} must be greater than ${exclusiveMinimum}`
+    );
+  }
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+    push(
+      'exclusiveMaximum',
+      exclusiveMaximum,
+      `value ${value} must be less than ${exclusiveMaximum}`
+    );
+  }
+  if (typeof multipleOf === 'number' && multipleOf > 0) {
+    const quotient = value / multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      push(
+        'multipleOf',
+        multipleOf,
+        `value ${value} is not a multiple of ${multipleOf}`
+      );
+    }
+  }
+}
+
+/**
+ * String keywords
+ */
+function validateString(
+  value: string,
+  schema: JsonSchema,
+  ctx: ValidationContext,
+  push: PushError
+): void {
+  const length = codePointLength(value);
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    push(
+      'minLength',
+      schema.minLength,
+      `string length ${length} is less than minLength ${schema.minLength}`
+    );
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    push(
+      'maxLength',
+      schema.maxLength,
+      `string length ${length} exceeds maxLength ${schema.maxLength}`
+    );
+  }
+  if (typeof schema.pattern === 'string') {
+    const regex = compilePattern(schema.pattern);
+    if (regex === null) {
+      push('pattern', schema.pattern, `invalid pattern "${schema.pattern}"`);
+    } else if (!regex.test(value)) {
+      push(
+        'pattern',
+        schema.pattern,
+        `string does not match pattern "${schema.pattern}"`
+      );
+    }
+  }
+  if (ctx.options.validateFormats && typeof schema.format === 'string') {
+    const checker = FORMAT_CHECKERS[schema.format];
+    if (checker && !checker(value)) {
+      push('format', schema.format, `string is not a valid ${schema.format}`);
+    }
+  }
+}
+
+/**
+ * Array keywords
+ */
+function validateArray(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  schemaPath: string,
+  ctx: ValidationContext,
+  errors: SchemaValidationError[],
+  push: PushError
+): void {
+  const minItems = schema.minItems as number | undefined;
+  const maxItems = schema.maxItems as number | undefined;
+  if (typeof minItems === 'number' && value.length < minItems) {
+    push(
+      'minItems',
+      minItems,
+      `array has ${value.length} items, fewer than minItems ${minItems}`
+    );
+  }
+  if (typeof maxItems === 'number' && value.length > maxItems) {
+    push(
+      'maxItems',
+      maxItems,
+      `array has ${value.length} items, more than maxItems ${maxItems}`
+    );
+  }
+  if (schema.uniqueItems === true) {
+    for (let i = 0; i < value.length; i++) {
+      const duplicate = value.findIndex(
+        (other, j) => j > i && isJsonEqual(value[i], other)
+      );
+      if (duplicate !== -1) {
+        push(
+          'uniqueItems',
+          true,
+          `items at ${i} and ${duplicate} are identical`
+        );
+        break;
+      }
+    }
+  }
+
+  const prefixItems = Array.isArray(schema.prefixItems)
+    ? (schema.prefixItems as SchemaNode[])
+    : [];
+  prefixItems.forEach((itemSchema, index) => {
+    if (index < value.length) {
+      validateNode(
+        value[index],
+        itemSchema,
+        `${path}/${index}`,
+        `${schemaPath}/prefixItems/${index}`,
+        ctx,
+        errors
+      );
+    }
+  });
+
+  const items = schema.items as SchemaNode | undefined;
+  if (items !== undefined) {
+    for (let index = prefixItems.length; index < value.length; index++) {
+      validateNode(
+        value[index],
+        items,
+        `${path}/${index}`,
+        `${schemaPath}/items`,
+        ctx,
+        errors
+      );
+    }
+  }
+
+  const contains = schema.contains as SchemaNode | undefined;
+  if (contains !== undefined) {
+    const matches = value.filter((item, index) =>
+      isValid(item, contains, `${path}/${index}`, ctx)
+    ).length;
+    const minContains =
+      typeof schema.minContains === 'number' ? schema.minContains : 1;
+    const maxContains = schema.maxContains as number | undefined;
+    if (matches < minContains) {
+      push(
+        minContains === 1 ? 'contains' : 'minContains',
+        minContains,
+        `array must contain at least ${minContains} matching item(s), found ${matches}`
+      );
+    }
+    if (typeof maxContains === 'number' && matches > maxContains) {
+      push(
+        'maxContains',
+        maxContains,
+        `array must contain at most ${maxContains} matching item(s), found ${matches}`
+      );
+    }
+  }
+}
+
+/**
+ * Object keywords
+ */
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  schemaPath: string,
+  ctx: ValidationContext,
+  errors: SchemaValidationError[],
+  push: PushError
+): void {
+  // Properties set to undefined do not exist once serialized to JSON
+  const keys = Object.keys(value).filter(key => value[key] !== undefined);
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required) {
+      if (value[key] === undefined) {
+        push('required', key, `missing required property "${key}"`);
+      }
+    }
+  }
+
+  const minProperties = schema.minProperties as number | undefined;
+  const maxProperties = schema.maxProperties as number | undefined;
+  if (typeof minProperties === 'number' && keys.length < minProperties) {
+    push(
+      'minProperties',
+      minProperties,
+      `object has ${keys.length} properties, fewer than minProperties ${minProperties}`
+    );
+  }
+  if (typeof maxProperties === 'number' && keys.length > maxProperties) {
+    push(
+      'maxProperties',
+      maxProperties,
+      `object has ${keys.length} properties, more than maxProperties ${maxProperties}`
+    );
+  }
+
+  const dependentRequired = schema.dependentRequired as
+    | Record<string, string[]>
+    | undefined;
+  if (dependentRequired && typeof dependentRequired === 'object') {
+    for (const [key, dependencies] of Object.entries(dependentRequired)) {
+      if (value[key] === undefined) {
+        continue;
+      }
+      for (const dependency of dependencies) {
+        if (value[dependency] === undefined) {
+          push(
+            'dependentRequired',
+            dependency,
+            `property "${dependency}" is required when "${key}" is present`
+          );
+        }
+      }
+    }
+  }
+
+  const propertyNames = schema.propertyNames as SchemaNode | undefined;
+  const properties = schema.properties ?? {};
+  const patternProperties = (schema.patternProperties ?? {}) as Record<
+    string,
+    SchemaNode
+  >;
+  const patterns = Object.entries(patternProperties).map(
+    ([pattern, patternSchema]) => ({
+      pattern,
+      regex: compilePattern(pattern),
+      schema: patternSchema,
+    })
+  );
+
+  for (const key of keys) {
+    const childPath = `${path}/${escapeJsonPointer(key)}`;
+
+    if (
+      propertyNames !== undefined &&
+      !isValid(key, propertyNames, childPath, ctx)
+    ) {
+      push(
+        'propertyNames',
+        propertyNames,
+        `property name "${key}" is not allowed`,
+        childPath
+      );
+    }
+
+    let evaluated = false;
+    if (Object.prototype.hasOwnProperty.call(properties, key)) {
+      evaluated = true;
+      validateNode(
+        value[key],
+        properties[key] as SchemaNode,
+        childPath,
+        `${schemaPath}/properties/${escapeJsonPointer(key)}`,
+        ctx,
+        errors
+      );
+    }
+    for (const entry of patterns) {
+      if (entry.regex?.test(key)) {
+        evaluated = true;
+        validateNode(
+          value[key],
+          entry.schema,
+          childPath,
+          `${schemaPath}/patternProperties/${escapeJsonPointer(entry.pattern)}`,
+          ctx,
+          errors
+        );
+      }
+    }
+
+    if (!evaluated && schema.additionalProperties !== undefined) {
+      if (schema.additionalProperties === false) {
+        push(
+          'additionalProperties',
+          false,
+          `property "${key}" is not allowed`,
+          childPath
+        );
+      } else {
+        validateNode(
+          value[key],
+          schema.additionalProperties as SchemaNode,
+          childPath,
+          `${schemaPath}/additionalProperties`,
+          ctx,
+          errors
+        );
+      }
+    }
+  }
+}
+
+/**
+ * allOf / anyOf / oneOf / not / if-then-else
+ */
+function validateCombinators(
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  schemaPath: string,
+  ctx: ValidationContext,
+  errors: SchemaValidationError[],
+  push: PushError
+): void {
+  if (Array.isArray(schema.allOf)) {
+    (schema.allOf as SchemaNode[]).forEach((subSchema, index) => {
+      validateNode(
+        value,
+        subSchema,
+        path,
+        `${schemaPath}/allOf/${index}`,
+        ctx,
+        errors
+      );
+    });
+  }
+
+  if (Array.isArray(schema.anyOf)) {
+    const options = schema.anyOf as SchemaNode[];
+    if (!options.some(subSchema => isValid(value, subSchema, path, ctx))) {
+      push(
+        'anyOf',
+        options.length,
+        'value does not match any of the allowed schemas'
+      );
+    }
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const options = schema.oneOf as SchemaNode[];
+    const matches = options.filter(subSchema =>
+      isValid(value, subSchema, path, ctx)
+    ).length;
+    if (matches !== 1) {
+      push(
+        'oneOf',
+        1,
+        matches === 0
+          ? 'value does not match any of the allowed schemas'
+          : `value matches ${matches} schemas, expected exactly one`
+      );
+    }
+  }
+
+  if (schema.not !== undefined) {
+    if (isValid(value, schema.not as SchemaNode, path, ctx)) {
+      push('not', schema.not, 'value must not match the schema');
+    }
+  }
+
+  if (schema.if !== undefined) {
+    const branch = isValid(value, schema.if as SchemaNode, path, ctx)
+      ? 'then'
+      : 'else';
+    const branchSchema = schema[branch] as SchemaNode | undefined;
+    if (branchSchema !== undefined) {
+      validateNode(
+        value,
+        branchSchema,
+        path,
+        `${schemaPath}/${branch}`,
+        ctx,
+        errors
+      );
+    }
+  }
+}
+
+/**
+ * Check a value at `path` against a sub-schema without collecting its
+ * errors. The reference stack is shared so cycles through combinators are
+ * still caught.
+ */
+function isValid(
+  value: unknown,
+  schema: SchemaNode,
+  path: string,
+  ctx: ValidationContext
+): boolean {
+  const errors: SchemaValidationError[] = [];
+  validateNode(value, schema, path, '', ctx, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Validate a value against a JSON Schema
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: SchemaNode,
+  options: SchemaValidationOptions = {}
+): SchemaValidationResult {
+  const ctx: ValidationContext = {
+    root: schema,
+    options: { validateFormats: options.validateFormats ?? true },
+    refStack: new Set(),
+  };
+  const errors: SchemaValidationError[] = [];
+  validateNode(value, schema, '', '', ctx, errors);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Format a structured error as a single line, e.g. `/text: expected string, got number`
+ */
+export function formatSchemaError(error: SchemaValidationError): string {
+  return `${error.path || '(root)'}: ${error.message}`;
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import type { BaseResponse, NetworkClient } from '@sudobility/shapeshyft_types';
+import { type LoadTestExecutor, percentile, runLoadTest } from './load-test';
+
+/**
+ * Fake NetworkClient that answers POSTs after a delay; every `failEvery`th
+ * call is rejected with a 429
+ */
+function createFakeNetworkClient(
+  options: { delayMs?: number; failEvery?: number } = {}
+): NetworkClient & { calls: number } {
+  const fake = {
+    calls: 0,
+    async post(_url: string, body?: unknown) {
+      const call = ++fake.calls;
+      await new Promise(resolve => setTimeout(resolve, options.delayMs ?? 1));
+      if (options.failEvery && call % options.failEvery === 0) {
+        return {
+          ok: false,
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: {},
+          success: false,
+          timestamp: new Date().toISOString(),
+          data: { success: false, error: 'rate limited' },
+        };
+      }
+      return {
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        success: true,
+        timestamp: new Date().toISOString(),
+        data: {
+          success: true,
+          timestamp: new Date().toISOString(),
+          data: {
+            output: { echo: body },
+            usage: {
+              tokens_input: 10,
+              tokens_output: 5,
+              latency_ms: 1,
+              estimated_cost_cents: 0,
+            },
+          },
+        },
+      };
+    },
+  };
+  return fake as unknown as NetworkClient & { calls: number };
+}
+
+/**
+ * Executor posting to the AI endpoint the way the client's execute does
+ */
+function createExecutor(networkClient: NetworkClient): LoadTestExecutor {
+  return async input => {
+    const response = await networkClient.post<BaseResponse<unknown>>(
+      'https://api.example.com/api/v1/ai/org/project/classify',
+      input
+    );
+    if (!response.ok || !response.data) {
+      throw new Error(
+        `Failed to execute AI (POST): ${response.data?.error ?? 'Unknown error'}`
+      );
+    }
+    return response.data;
+  };
+}
+
+describe('runLoadTest', () => {
+  it('should report latency, errors and tokens', async () => {
+    const networkClient = createFakeNetworkClient({ failEvery: 4 });
+
+    const report = await runLoadTest(createExecutor(networkClient), {
+      requests: 20,
+      concurrency: 4,
+      input: { text: 'hello' },
+    });
+
+    expect(networkClient.calls).toBe(20);
+    expect(report.completed).toBe(20);
+    expect(report.succeeded).toBe(15);
+    expect(report.failed).toBe(5);
+    expect(report.errorRate).toBe(0.25);
+    expect(report.errorsByMessage).toEqual({
+      'Failed to execute AI (POST): rate limited': 5,
+    });
+    expect(report.totalTokens).toBe(15 * 15);
+    expect(report.latency).not.toBeNull();
+    expect(report.latency!.p50).toBeLessThanOrEqual(report.latency!.p99);
+    expect(report.cancelled).toBe(false);
+  });
+
+  it('should stop sending requests when aborted', async () => {
+    const networkClient = createFakeNetworkClient({ delayMs: 5 });
+    const controller = new AbortController();
+
+    const report = await runLoadTest(createExecutor(networkClient), {
+      requests: 100,
+      concurrency: 2,
+      input: {},
+      signal: controller.signal,
+      onProgress: completed => {
+        if (completed === 6) {
+          controller.abort();
+        }
+      },
+    });
+
+    expect(report.cancelled).toBe(true);
+    expect(report.completed).toBeLessThan(100);
+    expect(networkClient.calls).toBeLessThan(100);
+  });
+});
+
+describe('percentile', () => {
+  it('should use the nearest rank', () => {
+    const sorted = Array.from({ length: 10 }, (_, i) => i + 1);
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 90)).toBe(9);
+    expect(percentile(sorted, 99)).toBe(10);
+  });
+});
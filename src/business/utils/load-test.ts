@@ -0,0 +1,227 @@
+/**
+ * Load test runner
+ * Fire many requests at an endpoint and summarize latency, errors and throughput
+ */
+
+import type { BaseResponse } from '@sudobility/shapeshyft_types';
+
+/**
+ * Executes a single request, e.g. a bound `aiExecute.execute`
+ */
+export type LoadTestExecutor = (
+  input: unknown,
+  index: number
+) => Promise<BaseResponse<unknown>>;
+
+/**
+ * Load test configuration
+ */
+export interface LoadTestOptions {
+  /** Total number of requests to send */
+  requests: number;
+  /** Maximum requests in flight at once (default: 1) */
+  concurrency?: number;
+  /** Time over which workers are started, spreading the initial burst (default: 0) */
+  rampUpMs?: number;
+  /** Input for each request: a fixed value, a list cycled through, or a factory */
+  input: unknown | unknown[] | ((index: number) => unknown);
+  /** Abort the run; in-flight requests are abandoned */
+  signal?: AbortSignal;
+  /** Called after each request completes */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Latency distribution in milliseconds
+ */
+export interface LatencyStats {
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Load test summary
+ */
+export interface LoadTestReport {
+  requested: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+  cancelled: boolean;
+  durationMs: number;
+  /** Completed requests per second */
+  throughputRps: number;
+  /** failed / completed, 0 when nothing completed */
+  errorRate: number;
+  /** Failure counts keyed by error message */
+  errorsByMessage: Record<string, number>;
+  /** Latency of completed requests, null when none completed */
+  latency: LatencyStats | null;
+  tokensInput: number;
+  tokensOutput: number;
+  totalTokens: number;
+}
+
+/**
+ * Nearest-rank percentile of a sorted list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+}
+
+/**
+ * Summarize a list of latencies
+ */
+export function computeLatencyStats(latencies: number[]): LatencyStats | null {
+  if (latencies.length === 0) {
+    return null;
+  }
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+  };
+}
+
+/**
+ * Read token usage from an execution response payload
+ */
+function readUsage(data: unknown): { input: number; output: number } {
+  const usage =
+    data && typeof data === 'object' && 'usage' in data
+      ? (data as { usage: { tokens_input?: number; tokens_output?: number } })
+          .usage
+      : undefined;
+  return {
+    input: usage?.tokens_input ?? 0,
+    output: usage?.tokens_output ?? 0,
+  };
+}
+
+/**
+ * Resolve when the delay elapses or the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (ms <= 0 || signal?.aborted) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+/**
+ * Run a load test against an executor
+ */
+export async function runLoadTest(
+  executor: LoadTestExecutor,
+  options: LoadTestOptions
+): Promise<LoadTestReport> {
+  const total = Math.max(0, Math.floor(options.requests));
+  const concurrency = Math.max(1, Math.min(options.concurrency ?? 1, total));
+  const rampUpMs = options.rampUpMs ?? 0;
+  const { signal, onProgress } = options;
+
+  const inputFor = (index: number): unknown => {
+    if (typeof options.input === 'function') {
+      return (options.input as (index: number) => unknown)(index);
+    }
+    if (Array.isArray(options.input) && options.input.length > 0) {
+      return options.input[index % options.input.length];
+    }
+    return options.input;
+  };
+
+  const latencies: number[] = [];
+  const errorsByMessage: Record<string, number> = {};
+  let next = 0;
+  let completed = 0;
+  let succeeded = 0;
+  let tokensInput = 0;
+  let tokensOutput = 0;
+
+  const aborted = new Promise<void>(resolve => {
+    if (signal?.aborted) {
+      resolve();
+    }
+    signal?.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+  const recordFailure = (message: string) => {
+    errorsByMessage[message] = (errorsByMessage[message] ?? 0) + 1;
+  };
+
+  const worker = async (workerIndex: number): Promise<void> => {
+    await sleep((workerIndex * rampUpMs) / concurrency, signal);
+    while (!signal?.aborted && next < total) {
+      const index = next++;
+      const started = Date.now();
+      let response: BaseResponse<unknown> | undefined;
+      let thrown: string | undefined;
+      try {
+        const outcome = await Promise.race([
+          executor(inputFor(index), index),
+          aborted.then(() => undefined),
+        ]);
+        if (outcome === undefined) {
+          return;
+        }
+        response = outcome;
+      } catch (err) {
+        thrown = err instanceof Error ? err.message : 'Request failed';
+      }
+
+      latencies.push(Date.now() - started);
+      completed++;
+      if (response?.success) {
+        succeeded++;
+        const usage = readUsage(response.data);
+        tokensInput += usage.input;
+        tokensOutput += usage.output;
+      } else {
+        recordFailure(thrown ?? response?.error ?? 'Request failed');
+      }
+      onProgress?.(completed, total);
+    }
+  };
+
+  const startedAt = Date.now();
+  await Promise.all(Array.from({ length: concurrency }, (_, i) => worker(i)));
+  const durationMs = Date.now() - startedAt;
+  const failed = completed - succeeded;
+
+  return {
+    requested: total,
+    completed,
+    succeeded,
+    failed,
+    cancelled: signal?.aborted ?? false,
+    durationMs,
+    throughputRps: durationMs > 0 ? (completed / durationMs) * 1000 : 0,
+    errorRate: completed > 0 ? failed / completed : 0,
+    errorsByMessage,
+    latency: computeLatencyStats(latencies),
+    tokensInput,
+    tokensOutput,
+    totalTokens: tokensInput + tokensOutput,
+  };
+}
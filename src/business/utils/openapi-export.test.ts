@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Endpoint, Project } from '@sudobility/shapeshyft_types';
+import { exportOpenApi, exportOpenApiYaml } from './openapi-export';
+import { stringifyYaml } from './yaml';
+import { localizationTemplate } from '../templates/endpoint-templates';
+
+const project: Project = {
+  uuid: 'proj-1',
+  user_id: 'user-1',
+  project_name: 'localization',
+  display_name: 'Localization',
+  description: 'Translate text',
+  is_active: true,
+  created_at: null,
+  updated_at: null,
+};
+
+const endpoints: Endpoint[] = localizationTemplate.endpoints.map(
+  (template, i) => ({
+    uuid: `ep-${i}`,
+    project_id: 'proj-1',
+    endpoint_name: template.endpoint_name,
+    display_name: template.display_name,
+    http_method: i === 0 ? 'POST' : 'GET',
+    llm_key_id: 'key-1',
+    input_schema: template.input_schema,
+    output_schema: template.output_schema,
+    instructions: template.instructions,
+    context: null,
+    is_active: true,
+    created_at: null,
+    updated_at: null,
+  })
+);
+
+describe('exportOpenApi', () => {
+  it('should describe each endpoint as an operation', () => {
+    const doc = exportOpenApi(project, endpoints, {
+      baseUrl: 'https://api.example.com/',
+      organizationPath: 'acme',
+    });
+    const [post, get] = endpoints;
+
+    expect(doc.openapi).toBe('3.1.0');
+    expect(doc.servers?.[0].url).toBe(
+      'https://api.example.com/api/v1/ai/acme/localization'
+    );
+    expect(doc.paths[`/${post.endpoint_name}`].post).toMatchObject({
+      summary: post.display_name,
+      requestBody: { required: true },
+      responses: { '400': { $ref: '#/components/responses/BadRequest' } },
+    });
+    expect(doc.paths[`/${get.endpoint_name}`].get).toMatchObject({
+      parameters: [{ name: 'input', in: 'query' }],
+    });
+    expect(doc.components?.schemas).toHaveProperty(
+      'TranslateBatchInput',
+      post.input_schema
+    );
+  });
+
+  it('should emit YAML', () => {
+    const yaml = exportOpenApiYaml(project, endpoints);
+    expect(yaml).toMatch(/^openapi: "3\.1\.0"\n/);
+    expect(yaml).toContain('  - url: "/api/v1/ai/{organization}/localization"');
+    expect(yaml).toContain('        "200":');
+    expect(yaml).toContain('"$ref": "#/components/responses/NotFound"');
+    expect(stringifyYaml({ text: 'line one\nline two', list: [] })).toBe(
+      'text: |-\n  line one\n  line two\nlist: []\n'
+    );
+  });
+
+  it('should keep colliding component names apart and rebase local refs', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        item: { $ref: '#/$defs/item' },
+        children: { type: 'array', items: { $ref: '#' } },
+        kind: { const: { $ref: '#/literal' } },
+      },
+      $defs: { item: { type: 'string' } },
+    };
+    const doc = exportOpenApi(project, [
+      { ...endpoints[0], endpoint_name: 'a-b', input_schema: schema },
+      { ...endpoints[0], endpoint_name: 'a_b', input_schema: schema },
+      { ...endpoints[0], endpoint_name: 'error' },
+    ]);
+    const schemas = doc.components?.schemas as Record<
+      string,
+      { properties?: Record<string, unknown> }
+    >;
+
+    expect(Object.keys(schemas)).toEqual(
+      expect.arrayContaining(['ABInput', 'AB2Input', 'Error2Response'])
+    );
+    expect(schemas.ErrorResponse.properties).toHaveProperty('error');
+    expect(schemas.ABInput.properties).toEqual({
+      item: { $ref: '#/components/schemas/ABInput/$defs/item' },
+      children: {
+        type: 'array',
+        items: { $ref: '#/components/schemas/ABInput' },
+      },
+      kind: { const: { $ref: '#/literal' } },
+    });
+    expect(schemas.AB2Input.properties?.item).toEqual({
+      $ref: '#/components/schemas/AB2Input/$defs/item',
+    });
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * OpenAPI export
+ * Describe a project's endpoints as an OpenAPI 3.1 document
+ */
+
+import type {
+  Endpoint,
+  JsonSchema,
+  Project,
+} from '@sudobility/shapeshyft_types';
+import { stringifyYaml } from './yaml';
+
+/**
+ * OpenAPI document (loosely typed; only the top-level shape is fixed)
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: {
+    title: string;
+    version: string;
+    description?: string;
+  };
+  servers?: { url: string; [key: string]: unknown }[];
+  paths: Record<string, Record<string, unknown>>;
+  components?: Record<string, Record<string, unknown>>;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for exportOpenApi
+ */
+export interface OpenApiExportOptions {
+  /** API base URL (default: relative server URL) */
+  baseUrl?: string;
+  /** Organization path; a server variable is used when omitted */
+  organizationPath?: string;
+  /** info.version (default: '1.0.0') */
+  version?: string;
+  /** Include endpoints with is_active === false (default: false) */
+  includeInactive?: boolean;
+}
+
+const JSON_CONTENT = 'application/json';
+
+/**
+ * Component name for an endpoint, e.g. translate-batch -> TranslateBatch
+ */
+function componentName(endpointName: string): string {
+  return endpointName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+/**
+ * Component name for an endpoint that no other component uses yet. Names
+ * that collapse to the same component (a-b and a_b) get a numeric suffix.
+ */
+function uniqueComponentName(
+  endpointName: string,
+  schemas: Record<string, JsonSchema>
+): string {
+  const base = componentName(endpointName);
+  const taken = (name: string) =>
+    ['Input', 'Output', 'Response'].some(
+      suffix => `${name}${suffix}` in schemas
+    );
+  let name = base;
+  for (let n = 2; taken(name); n++) {
+    name = `${base}${n}`;
+  }
+  return name;
+}
+
+/**
+ * Keywords whose values are data, not subschemas
+ */
+const DATA_KEYWORDS = new Set(['const', 'enum', 'default', 'examples']);
+
+/**
+ * Copy a schema with its document-local refs (`#`, `#/$defs/...`) pointed at
+ * the component it is moved to
+ */
+function rebaseRefs(value: unknown, componentPointer: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => rebaseRefs(item, componentPointer));
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  const copy: Record<string, unknown> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '$ref' && typeof child === 'string' && child.startsWith('#')) {
+      copy[key] = `${componentPointer}${child.slice(1)}`;
+    } else if (DATA_KEYWORDS.has(key)) {
+      copy[key] = child;
+    } else {
+      copy[key] = rebaseRefs(child, componentPointer);
+    }
+  }
+  return copy;
+}
+
+function schemaPointer(name: string): string {
+  return `#/components/schemas/${name}`;
+}
+
+function schemaRef(name: string): JsonSchema {
+  return { $ref: schemaPointer(name) };
+}
+
+function responseRef(name: string): { $ref: string } {
+  return { $ref: `#/components/responses/${name}` };
+}
+
+/**
+ * Schemas and responses shared by every operation
+ */
+function sharedComponents(): {
+  schemas: Record<string, JsonSchema>;
+  responses: Record<string, unknown>;
+} {
+  const errorResponse = (description: string) => ({
+    description,
+    content: { [JSON_CONTENT]: { schema: schemaRef('ErrorResponse') } },
+  });
+  return {
+    schemas: {
+      ExecutionUsage: {
+        type: 'object',
+        properties: {
+          tokens_input: { type: 'integer' },
+          tokens_output: { type: 'integer' },
+          latency_ms: { type: 'integer' },
+          estimated_cost_cents: { type: 'number' },
+        },
+        required: [
+          'tokens_input',
+          'tokens_output',
+          'latency_ms',
+          'estimated_cost_cents',
+        ],
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          success: { const: false },
+          error: { type: 'string' },
+          timestamp: { type: 'string', format: 'date-time' },
+        },
+        required: ['success', 'error', 'timestamp'],
+      },
+    },
+    responses: {
+      BadRequest: errorResponse('Input does not match the input schema'),
+      NotFound: errorResponse('Endpoint not found or inactive'),
+      RateLimited: errorResponse('Rate limit exceeded'),
+      ServerError: errorResponse('Execution failed'),
+    },
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document with one operation per endpoint. Executions
+ * are documented as the server serves them: POST endpoints take the input as
+ * the JSON body, GET endpoints as a JSON-encoded `input` query parameter.
+ */
+export function exportOpenApi(
+  project: Project,
+  endpoints: Endpoint[],
+  options: OpenApiExportOptions = {}
+): OpenApiDocument {
+  const { schemas, responses } = sharedComponents();
+  const paths: OpenApiDocument['paths'] = {};
+
+  const included = endpoints
+    .filter(e => options.includeInactive || e.is_active !== false)
+    .sort((a, b) => a.endpoint_name.localeCompare(b.endpoint_name));
+
+  for (const endpoint of included) {
+    const name = uniqueComponentName(endpoint.endpoint_name, schemas);
+    schemas[`${name}Input`] = rebaseRefs(
+      endpoint.input_schema ?? { type: 'object' },
+      schemaPointer(`${name}Input`)
+    ) as JsonSchema;
+    schemas[`${name}Output`] = rebaseRefs(
+      endpoint.output_schema ?? {},
+      schemaPointer(`${name}Output`)
+    ) as JsonSchema;
+    schemas[`${name}Response`] = {
+      type: 'object',
+      properties: {
+        success: { const: true },
+        data: {
+          type: 'object',
+          properties: {
+            output: schemaRef(`${name}Output`),
+            usage: schemaRef('ExecutionUsage'),
+          },
+          required: ['output', 'usage'],
+        },
+        timestamp: { type: 'string', format: 'date-time' },
+      },
+      required: ['success', 'data', 'timestamp'],
+    };
+
+    const operation: Record<string, unknown> = {
+      operationId: endpoint.endpoint_name,
+      summary: endpoint.display_name,
+      description: endpoint.instructions || undefined,
+    };
+    if (endpoint.http_method === 'GET') {
+      operation.parameters = [
+        {
+          name: 'input',
+          in: 'query',
+          required: true,
+          description: 'JSON-encoded endpoint input',
+          content: { [JSON_CONTENT]: { schema: schemaRef(`${name}Input`) } },
+        },
+      ];
+    } else {
+      operation.requestBody = {
+        required: true,
+        content: { [JSON_CONTENT]: { schema: schemaRef(`${name}Input`) } },
+      };
+    }
+    operation.responses = {
+      '200': {
+        description: 'Successful execution',
+        content: { [JSON_CONTENT]: { schema: schemaRef(`${name}Response`) } },
+      },
+      '400': responseRef('BadRequest'),
+      '404': responseRef('NotFound'),
+      '429': responseRef('RateLimited'),
+      '500': responseRef('ServerError'),
+    };
+
+    paths[`/${endpoint.endpoint_name}`] = {
+      [endpoint.http_method === 'GET' ? 'get' : 'post']: operation,
+    };
+  }
+
+  const base = (options.baseUrl ?? '').replace(/\/$/, '');
+  const organization = options.organizationPath ?? '{organization}';
+  const server: { url: string; [key: string]: unknown } = {
+    url: `${base}/api/v1/ai/${organization}/${project.project_name}`,
+  };
+  if (options.organizationPath === undefined) {
+    server.variables = {
+      organization: {
+        default: 'organization',
+        description: 'Organization path the project belongs to',
+      },
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: project.display_name,
+      version: options.version ?? '1.0.0',
+      description: project.description || undefined,
+    },
+    servers: [server],
+    paths,
+    components: { schemas, responses },
+  };
+}
+
+/**
+ * Export a project as an OpenAPI 3.1 JSON string
+ */
+export function exportOpenApiJson(
+  project: Project,
+  endpoints: Endpoint[],
+  options: OpenApiExportOptions = {}
+): string {
+  return JSON.stringify(exportOpenApi(project, endpoints, options), null, 2);
+}
+
+/**
+ * Export a project as an OpenAPI 3.1 YAML string
+ */
+export function exportOpenApiYaml(
+  project: Project,
+  endpoints: Endpoint[],
+  options: OpenApiExportOptions = {}
+): string {
+  return stringifyYaml(exportOpenApi(project, endpoints, options));
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import type { Endpoint, Project } from '@sudobility/shapeshyft_types';
+import { importOpenApi, OpenApiImportError } from './openapi-import';
+import { exportOpenApiJson, exportOpenApiYaml } from './openapi-export';
+import { textClassifierTemplate } from '../templates/endpoint-templates';
+
+const spec = `
+openapi: 3.0.3
+info:
+  title: Support Desk
+  description: Ticket helpers
+paths:
+  /tickets/triage:
+    post:
+      operationId: triageTicket
+      summary: Triage Ticket
+      description: Route a ticket to the right queue.
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/Ticket'
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema:
+                type: object
+                properties:
+                  queue: { type: string, enum: [billing, tech] }
+                required: [queue]
+  /tickets/search:
+    get:
+      summary: Search
+      parameters:
+        - name: q
+          in: query
+          required: true
+          schema: { type: string }
+      responses:
+        '200':
+          description: OK
+          content:
+            application/json:
+              schema: { type: array, items: { type: string } }
+  /tickets/{id}:
+    delete:
+      responses:
+        '204': { description: Deleted }
+  /tree:
+    post:
+      requestBody:
+        content:
+          application/json:
+            schema: { $ref: '#/components/schemas/Node' }
+      responses:
+        '200': { description: OK }
+components:
+  schemas:
+    Ticket:
+      type: object
+      properties:
+        subject: { type: string, example: Refund please }
+      required: [subject]
+    Node:
+      type: object
+      properties:
+        children: { type: array, items: { $ref: '#/components/schemas/Node' } }
+`;
+
+describe('importOpenApi', () => {
+  it('should convert operations and report the rest', () => {
+    const result = importOpenApi(spec, 'key-1');
+
+    expect(result.project).toEqual({
+      project_name: 'support-desk',
+      display_name: 'Support Desk',
+      description: 'Ticket helpers',
+    });
+    expect(result.endpoints).toEqual([
+      {
+        endpoint_name: 'triage-ticket',
+        display_name: 'Triage Ticket',
+        http_method: 'POST',
+        llm_key_id: 'key-1',
+        input_schema: {
+          type: 'object',
+          properties: {
+            subject: { type: 'string', examples: ['Refund please'] },
+          },
+          required: ['subject'],
+        },
+        output_schema: {
+          type: 'object',
+          properties: { queue: { type: 'string', enum: ['billing', 'tech'] } },
+          required: ['queue'],
+        },
+        instructions: 'Route a ticket to the right queue.',
+        context: null,
+      },
+      expect.objectContaining({
+        endpoint_name: 'tickets-search',
+        http_method: 'GET',
+        input_schema: {
+          type: 'object',
+          properties: { q: { type: 'string' } },
+          required: ['q'],
+        },
+      }),
+    ]);
+    expect(result.skipped.map(s => [s.method, s.path])).toEqual([
+      ['DELETE', '/tickets/{id}'],
+      ['POST', '/tree'],
+    ]);
+    expect(result.skipped[1].reason).toMatch(/Recursive \$ref/);
+  });
+
+  it('should round-trip exported documents', () => {
+    const project = {
+      uuid: 'p',
+      project_name: 'classifier',
+      display_name: 'Classifier',
+      description: null,
+    } as Project;
+    const endpoints = textClassifierTemplate.endpoints.map(t => ({
+      ...t,
+      uuid: t.endpoint_name,
+      http_method: 'GET',
+      is_active: true,
+    })) as unknown as Endpoint[];
+
+    for (const doc of [
+      exportOpenApiJson(project, endpoints),
+      exportOpenApiYaml(project, endpoints),
+    ]) {
+      const result = importOpenApi(doc, 'key-1', {
+        projectName: 'classifier',
+      });
+      expect(result.skipped).toEqual([]);
+      expect(
+        result.endpoints.map(e => [
+          e.endpoint_name,
+          e.http_method,
+          e.input_schema,
+          e.output_schema,
+        ])
+      ).toEqual(
+        endpoints.map(e => [
+          e.endpoint_name,
+          'GET',
+          e.input_schema,
+          e.output_schema,
+        ])
+      );
+    }
+  });
+
+  it('should convert OpenAPI 3.0 nullable and exclusive bounds', () => {
+    const doc = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Scores' },
+      paths: {
+        '/score': {
+          post: {
+            operationId: 'score',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: {
+                      note: { type: 'string', nullable: true },
+                      level: {
+                        type: 'string',
+                        enum: ['low', 'high'],
+                        nullable: true,
+                      },
+                      ratio: {
+                        type: 'number',
+                        minimum: 0,
+                        exclusiveMinimum: true,
+                        maximum: 1,
+                        exclusiveMaximum: false,
+                      },
+                      tag: { allOf: [{ type: 'string' }], nullable: true },
+                    },
+                  },
+                },
+              },
+            },
+            responses: {
+              '200': {
+                description: 'OK',
+                content: {
+                  'application/json': { schema: { type: 'number' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const [endpoint] = importOpenApi(doc, 'key-1').endpoints;
+    expect(endpoint.input_schema?.properties).toEqual({
+      note: { type: ['string', 'null'] },
+      level: { type: ['string', 'null'], enum: ['low', 'high', null] },
+      ratio: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+      tag: { anyOf: [{ allOf: [{ type: 'string' }] }, { type: 'null' }] },
+    });
+  });
+
+  it('should reject documents that are not OpenAPI 3', () => {
+    expect(() => importOpenApi('swagger: "2.0"', 'key-1')).toThrow(
+      OpenApiImportError
+    );
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * OpenAPI import
+ * Turn an OpenAPI 3.x document into project and endpoint create requests
+ */
+
+import type {
+  EndpointCreateRequest,
+  HttpMethod,
+  JsonSchema,
+  Optional,
+  ProjectCreateRequest,
+} from '@sudobility/shapeshyft_types';
+import { parseJsonPointer } from './json-schema-validator';
+import type { OpenApiDocument } from './openapi-export';
+import { parseYaml } from './yaml';
+
+/**
+ * Thrown when a document is not valid OpenAPI 3.x
+ */
+export class OpenApiImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OpenApiImportError';
+  }
+}
+
+/**
+ * An operation that could not be converted to an endpoint
+ */
+export interface SkippedOperation {
+  /** Upper-case HTTP method */
+  method: string;
+  path: string;
+  operationId: Optional<string>;
+  reason: string;
+}
+
+/**
+ * Options for importOpenApi
+ */
+export interface OpenApiImportOptions {
+  /** Project slug (default: derived from info.title) */
+  projectName?: string;
+}
+
+/**
+ * Result of importOpenApi, in the shape applyTemplate returns plus the
+ * operations that were left out
+ */
+export interface OpenApiImportResult {
+  project: ProjectCreateRequest;
+  endpoints: EndpointCreateRequest[];
+  skipped: SkippedOperation[];
+}
+
+const HTTP_METHODS = [
+  'get',
+  'put',
+  'post',
+  'delete',
+  'options',
+  'head',
+  'patch',
+  'trace',
+];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Slug suitable for project_name or endpoint_name
+ */
+function toSlug(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Parse and check an OpenAPI 3.x document given as JSON, YAML or an object
+ */
+export function parseOpenApiDocument(source: string | object): OpenApiDocument {
+  let doc: unknown = source;
+  if (typeof source === 'string') {
+    const text = source.trim();
+    try {
+      doc = text.startsWith('{') ? JSON.parse(text) : parseYaml(text);
+    } catch (err) {
+      throw new OpenApiImportError(
+        `Could not parse document: ${err instanceof Error ? err.message : String(err)}`
+      );
+    }
+  }
+  if (!isObject(doc) || typeof doc.openapi !== 'string') {
+    throw new OpenApiImportError('Document has no "openapi" version field');
+  }
+  if (!doc.openapi.startsWith('3.')) {
+    throw new OpenApiImportError(
+      `Unsupported OpenAPI version ${doc.openapi}; expected 3.x`
+    );
+  }
+  if (!isObject(doc.info) || !isObject(doc.paths ?? {})) {
+    throw new OpenApiImportError('Document is missing "info" or "paths"');
+  }
+  return doc as OpenApiDocument;
+}
+
+/**
+ * Inline local $refs. Throws OpenApiImportError for external or recursive
+ * references, which cannot be expressed as an inline schema.
+ */
+function resolveRefs(value: unknown, doc: unknown, stack: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveRefs(item, doc, stack));
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (typeof value.$ref === 'string') {
+    const ref = value.$ref;
+    if (!ref.startsWith('#')) {
+      throw new OpenApiImportError(`External $ref "${ref}" is not supported`);
+    }
+    if (stack.includes(ref)) {
+      throw new OpenApiImportError(`Recursive $ref "${ref}" cannot be inlined`);
+    }
+    const target = parseJsonPointer(ref.slice(1)).reduce<unknown>(
+      (node, token) =>
+        isObject(node) || Array.isArray(node)
+          ? (node as JsonObject)[token]
+          : undefined,
+      doc
+    );
+    if (target === undefined) {
+      throw new OpenApiImportError(`Unresolved $ref "${ref}"`);
+    }
+    const resolved = resolveRefs(target, doc, [...stack, ref]);
+    const { $ref: _ref, ...siblings } = value;
+    return Object.keys(siblings).length > 0 && isObject(resolved)
+      ? { ...resolved, ...(resolveRefs(siblings, doc, stack) as JsonObject) }
+      : resolved;
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      resolveRefs(item, doc, stack),
+    ])
+  );
+}
+
+/**
+ * Replace OpenAPI 3.0 boolean exclusiveMinimum/exclusiveMaximum flags with
+ * the numeric bounds JSON Schema expects
+ */
+function convertExclusiveBound(
+  schema: JsonObject,
+  bound: 'minimum' | 'maximum'
+): void {
+  const key = bound === 'minimum' ? 'exclusiveMinimum' : 'exclusiveMaximum';
+  const flag = schema[key];
+  if (typeof flag !== 'boolean') {
+    return;
+  }
+  delete schema[key];
+  if (flag && typeof schema[bound] === 'number') {
+    schema[key] = schema[bound];
+    delete schema[bound];
+  }
+}
+
+/**
+ * Allow null for an OpenAPI 3.0 `nullable: true` schema
+ */
+function allowNull(schema: JsonObject): JsonObject {
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+  if (typeof schema.type === 'string') {
+    return { ...schema, type: [schema.type, 'null'] };
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.includes('null')
+      ? schema
+      : { ...schema, type: [...schema.type, 'null'] };
+  }
+  return Array.isArray(schema.enum)
+    ? schema
+    : { anyOf: [schema, { type: 'null' }] };
+}
+
+/**
+ * Convert OpenAPI schema dialect details to plain JSON Schema, including the
+ * 3.0 `nullable` keyword and boolean exclusive bounds
+ */
+function toJsonSchema(schema: unknown): JsonSchema {
+  if (!isObject(schema)) {
+    return {};
+  }
+  let result: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'example') {
+      result.examples ??= [value];
+    } else if (
+      key === 'xml' ||
+      key === 'externalDocs' ||
+      key === 'discriminator' ||
+      key === 'nullable'
+    ) {
+      continue;
+    } else if (key === 'properties' && isObject(value)) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, prop]) => [name, toJsonSchema(prop)])
+      );
+    } else if (
+      ['items', 'not', 'additionalProperties'].includes(key) &&
+      isObject(value)
+    ) {
+      result[key] = toJsonSchema(value);
+    } else if (
+      ['allOf', 'anyOf', 'oneOf'].includes(key) &&
+      Array.isArray(value)
+    ) {
+      result[key] = value.map(toJsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  convertExclusiveBound(result, 'minimum');
+  convertExclusiveBound(result, 'maximum');
+  if (schema.nullable === true) {
+    result = allowNull(result);
+  }
+  return result as JsonSchema;
+}
+
+/**
+ * Schema of the JSON media type in a content map
+ */
+function jsonContentSchema(content: unknown): unknown {
+  if (!isObject(content)) {
+    return undefined;
+  }
+  const key = Object.keys(content).find(type =>
+    /^application\/([\w.+-]+\+)?json\b/.test(type)
+  );
+  return key && isObject(content[key]) ? content[key].schema : undefined;
+}
+
+/**
+ * Output schema, unwrapping the execution envelope exportOpenApi writes
+ */
+function unwrapEnvelope(schema: JsonSchema): JsonSchema {
+  const data = schema.properties?.data;
+  const output = data?.properties?.output;
+  return schema.properties?.success && output ? output : schema;
+}
+
+function inputSchemaFor(
+  method: string,
+  operation: JsonObject,
+  parameters: JsonObject[]
+): Optional<JsonSchema> {
+  const encoded = parameters.find(
+    p => p.name === 'input' && p.in === 'query' && p.content
+  );
+  if (encoded) {
+    return toJsonSchema(jsonContentSchema(encoded.content));
+  }
+  if (method === 'post' && operation.requestBody !== undefined) {
+    const schema = isObject(operation.requestBody)
+      ? jsonContentSchema(operation.requestBody.content)
+      : undefined;
+    if (schema === undefined) {
+      throw new OpenApiImportError('Request body has no JSON content');
+    }
+    return toJsonSchema(schema);
+  }
+
+  const fields = parameters.filter(p => p.in === 'query' || p.in === 'path');
+  if (fields.length === 0) {
+    return null;
+  }
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const param of fields) {
+    const name = String(param.name);
+    properties[name] = toJsonSchema(
+      param.schema ?? jsonContentSchema(param.content) ?? { type: 'string' }
+    );
+    if (typeof param.description === 'string') {
+      properties[name].description ??= param.description;
+    }
+    if (param.required === true) {
+      required.push(name);
+    }
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+function outputSchemaFor(operation: JsonObject): JsonSchema {
+  const responses = isObject(operation.responses) ? operation.responses : {};
+  const status = Object.keys(responses)
+    .filter(code => /^2(\d\d|XX)$/i.test(code))
+    .sort()[0];
+  const schema = status
+    ? jsonContentSchema((responses[status] as JsonObject)?.content)
+    : undefined;
+  if (schema === undefined) {
+    throw new OpenApiImportError('No JSON success response');
+  }
+  return unwrapEnvelope(toJsonSchema(schema));
+}
+
+/**
+ * Convert an OpenAPI 3.x document (JSON, YAML or parsed) into project and
+ * endpoint create requests. Each GET or POST operation with a JSON success
+ * response becomes an endpoint; everything else is reported in `skipped`.
+ */
+export function importOpenApi(
+  source: string | object,
+  llmKeyId: string,
+  options: OpenApiImportOptions = {}
+): OpenApiImportResult {
+  const doc = parseOpenApiDocument(source);
+  const title =
+    typeof doc.info.title === 'string' && doc.info.title
+      ? doc.info.title
+      : 'Imported API';
+
+  const project: ProjectCreateRequest = {
+    project_name: options.projectName ?? (toSlug(title) || 'imported-api'),
+    display_name: title,
+    description: doc.info.description ?? null,
+  };
+
+  const endpoints: EndpointCreateRequest[] = [];
+  const skipped: SkippedOperation[] = [];
+  const names = new Set<string>();
+
+  for (const [path, pathItem] of Object.entries(doc.paths ?? {})) {
+    if (!isObject(pathItem)) {
+      continue;
+    }
+    for (const method of HTTP_METHODS) {
+      const rawOperation = pathItem[method];
+      if (!isObject(rawOperation)) {
+        continue;
+      }
+      const operationId =
+        typeof rawOperation.operationId === 'string'
+          ? rawOperation.operationId
+          : null;
+      const skip = (reason: string) =>
+        skipped.push({
+          method: method.toUpperCase(),
+          path,
+          operationId,
+          reason,
+        });
+
+      if (method !== 'get' && method !== 'post') {
+        skip(`HTTP method ${method.toUpperCase()} is not supported`);
+        continue;
+      }
+      const endpointName = toSlug(operationId ?? path);
+      if (!endpointName) {
+        skip('Could not derive an endpoint name');
+        continue;
+      }
+      if (names.has(endpointName)) {
+        skip(`Duplicate endpoint name "${endpointName}"`);
+        continue;
+      }
+
+      try {
+        const operation = resolveRefs(rawOperation, doc, []) as JsonObject;
+        // Operation-level parameters override path-level ones
+        const parameters = new Map<string, JsonObject>();
+        for (const param of [
+          ...(resolveRefs(pathItem.parameters ?? [], doc, []) as unknown[]),
+          ...(Array.isArray(operation.parameters) ? operation.parameters : []),
+        ]) {
+          if (isObject(param)) {
+            parameters.set(`${param.in}:${param.name}`, param);
+          }
+        }
+
+        const summary =
+          typeof operation.summary === 'string' ? operation.summary : null;
+        const description =
+          typeof operation.description === 'string'
+            ? operation.description
+            : null;
+        endpoints.push({
+          endpoint_name: endpointName,
+          display_name: summary ?? operationId ?? endpointName,
+          http_method: method.toUpperCase() as HttpMethod,
+          llm_key_id: llmKeyId,
+          input_schema: inputSchemaFor(method, operation, [
+            ...parameters.values(),
+          ]),
+          output_schema: outputSchemaFor(operation),
+          instructions: description ?? summary,
+          context: null,
+        });
+        names.add(endpointName);
+      } catch (err) {
+        if (!(err instanceof OpenApiImportError)) {
+          throw err;
+        }
+        skip(err.message);
+      }
+    }
+  }
+
+  return { project, endpoints, skipped };
+}
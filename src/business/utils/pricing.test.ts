@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPricingCatalog,
+  DEFAULT_MODEL_PRICING,
+  estimateCostCents,
+  findModelPricing,
+} from './pricing';
+
+describe('findModelPricing', () => {
+  it('should prefer an exact name, then the longest prefix, then *', () => {
+    const catalog = DEFAULT_MODEL_PRICING;
+    expect(
+      findModelPricing(catalog, { provider: 'openai', model: 'GPT-4o-mini' })
+        ?.model
+    ).toBe('gpt-4o-mini');
+    expect(
+      findModelPricing(catalog, {
+        provider: 'openai',
+        model: 'gpt-4o-mini-2024-07-18',
+      })?.model
+    ).toBe('gpt-4o-mini');
+    expect(
+      findModelPricing(catalog, { provider: 'openai', model: 'o3' })?.model
+    ).toBe('*');
+    expect(findModelPricing(catalog, { provider: 'gemini' })?.model).toBe('*');
+    expect(
+      findModelPricing([], { provider: 'anthropic', model: 'claude' })
+    ).toBeUndefined();
+  });
+
+  it('should price model variants by their own entry, not the base model', () => {
+    const catalog = DEFAULT_MODEL_PRICING;
+    expect(
+      ['gpt-4.1-nano', 'gpt-4.1-mini-2025-04-14', 'gpt-4.1-2025-04-14'].map(
+        model => findModelPricing(catalog, { provider: 'openai', model })?.model
+      )
+    ).toEqual(['gpt-4.1-nano', 'gpt-4.1-mini', 'gpt-4.1']);
+    // The longest prefix wins whatever the catalog order
+    expect(
+      findModelPricing([...catalog].reverse(), {
+        provider: 'openai',
+        model: 'gpt-4.1-mini-2025-04-14',
+      })?.model
+    ).toBe('gpt-4.1-mini');
+  });
+});
+
+describe('createPricingCatalog', () => {
+  it('should replace defaults with the same provider and model', () => {
+    const catalog = createPricingCatalog([
+      {
+        provider: 'openai',
+        model: 'gpt-4o',
+        inputPerMillionCents: 1,
+        outputPerMillionCents: 2,
+      },
+      {
+        provider: 'llm_server',
+        model: 'llama-3',
+        inputPerMillionCents: 5,
+        outputPerMillionCents: 5,
+      },
+    ]);
+    expect(catalog).toHaveLength(DEFAULT_MODEL_PRICING.length + 1);
+    expect(
+      findModelPricing(catalog, { provider: 'openai', model: 'gpt-4o' })
+        ?.inputPerMillionCents
+    ).toBe(1);
+    expect(
+      findModelPricing(catalog, { provider: 'llm_server', model: 'llama-3-8b' })
+        ?.model
+    ).toBe('llama-3');
+  });
+});
+
+describe('estimateCostCents', () => {
+  it('should price input and output tokens per million', () => {
+    const pricing = {
+      provider: 'openai' as const,
+      model: 'x',
+      inputPerMillionCents: 250,
+      outputPerMillionCents: 1000,
+    };
+    expect(estimateCostCents(pricing, 1_000_000, 500_000)).toBe(750);
+    expect(estimateCostCents(pricing, 0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Model pricing
+ * Pricing catalog for turning token counts into estimated cost
+ */
+
+import type { LlmProvider } from '@sudobility/shapeshyft_types';
+
+/**
+ * Identifies the model a request ran against
+ */
+export interface ModelRef {
+  provider: LlmProvider;
+  model?: string;
+}
+
+/**
+ * Price of a model, in cents per million tokens
+ */
+export interface ModelPricing {
+  provider: LlmProvider;
+  /** Model name or prefix; '*' is the provider fallback */
+  model: string;
+  inputPerMillionCents: number;
+  outputPerMillionCents: number;
+}
+
+/**
+ * Built-in list prices. Apps can override or extend them with
+ * createPricingCatalog.
+ */
+export const DEFAULT_MODEL_PRICING: ModelPricing[] = [
+  {
+    provider: 'openai',
+    model: 'gpt-4o',
+    inputPerMillionCents: 250,
+    outputPerMillionCents: 1000,
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4o-mini',
+    inputPerMillionCents: 15,
+    outputPerMillionCents: 60,
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4.1',
+    inputPerMillionCents: 200,
+    outputPerMillionCents: 800,
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4.1-mini',
+    inputPerMillionCents: 40,
+    outputPerMillionCents: 160,
+  },
+  {
+    provider: 'openai',
+    model: 'gpt-4.1-nano',
+    inputPerMillionCents: 10,
+    outputPerMillionCents: 40,
+  },
+  {
+    provider: 'openai',
+    model: '*',
+    inputPerMillionCents: 250,
+    outputPerMillionCents: 1000,
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-opus-4',
+    inputPerMillionCents: 1500,
+    outputPerMillionCents: 7500,
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-sonnet-4',
+    inputPerMillionCents: 300,
+    outputPerMillionCents: 1500,
+  },
+  {
+    provider: 'anthropic',
+    model: 'claude-3-5-haiku',
+    inputPerMillionCents: 80,
+    outputPerMillionCents: 400,
+  },
+  {
+    provider: 'anthropic',
+    model: '*',
+    inputPerMillionCents: 300,
+    outputPerMillionCents: 1500,
+  },
+  {
+    provider: 'gemini',
+    model: 'gemini-2.5-pro',
+    inputPerMillionCents: 125,
+    outputPerMillionCents: 1000,
+  },
+  {
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    inputPerMillionCents: 30,
+    outputPerMillionCents: 250,
+  },
+  {
+    provider: 'gemini',
+    model: 'gemini-2.0-flash',
+    inputPerMillionCents: 10,
+    outputPerMillionCents: 40,
+  },
+  {
+    provider: 'gemini',
+    model: '*',
+    inputPerMillionCents: 30,
+    outputPerMillionCents: 250,
+  },
+  {
+    provider: 'llm_server',
+    model: '*',
+    inputPerMillionCents: 0,
+    outputPerMillionCents: 0,
+  },
+];
+
+/**
+ * Lookup table of model prices
+ */
+export type PricingCatalog = ModelPricing[];
+
+/**
+ * Build a catalog from the defaults plus overrides. An override replaces the
+ * default with the same provider and model.
+ */
+export function createPricingCatalog(
+  overrides: ModelPricing[] = [],
+  base: ModelPricing[] = DEFAULT_MODEL_PRICING
+): PricingCatalog {
+  const key = (p: ModelPricing) => `${p.provider}:${p.model}`;
+  const overridden = new Set(overrides.map(key));
+  return [...base.filter(p => !overridden.has(key(p))), ...overrides];
+}
+
+/**
+ * Find pricing for a model: exact name, then longest matching prefix, then
+ * the provider's '*' entry
+ */
+export function findModelPricing(
+  catalog: PricingCatalog,
+  ref: ModelRef
+): ModelPricing | undefined {
+  const candidates = catalog.filter(p => p.provider === ref.provider);
+  const model = ref.model?.toLowerCase();
+  if (model) {
+    const exact = candidates.find(p => p.model.toLowerCase() === model);
+    if (exact) {
+      return exact;
+    }
+    const prefixed = candidates
+      .filter(p => p.model !== '*' && model.startsWith(p.model.toLowerCase()))
+      .sort((a, b) => b.model.length - a.model.length)[0];
+    if (prefixed) {
+      return prefixed;
+    }
+  }
+  return candidates.find(p => p.model === '*');
+}
+
+/**
+ * Estimated cost in cents for a token count
+ */
+export function estimateCostCents(
+  pricing: ModelPricing,
+  tokensInput: number,
+  tokensOutput: number
+): number {
+  return (
+    (tokensInput * pricing.inputPerMillionCents +
+      tokensOutput * pricing.outputPerMillionCents) /
+    1_000_000
+  );
+}
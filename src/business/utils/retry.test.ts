@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import type { BaseResponse, NetworkClient } from '@sudobility/shapeshyft_types';
+import { RequestTimeoutError } from './abortable';
+import {
+  computeRetryDelay,
+  createResponseTracker,
+  createRetryingNetworkClient,
+  executeWithRetry,
+  type HttpResponseInfo,
+  parseRetryAfter,
+  type RetryAttempt,
+} from './retry';
+
+const failure = (error: string): BaseResponse<unknown> => ({
+  success: false,
+  error,
+  timestamp: new Date().toISOString(),
+});
+
+describe('executeWithRetry', () => {
+  it('should retry transient failures and record every attempt', async () => {
+    const attempts: RetryAttempt[] = [];
+    const responses = [
+      failure('Failed to execute AI (POST): 503 Service Unavailable'),
+      failure('Rate limit exceeded, retry after 0'),
+      { success: true, data: 'ok', timestamp: new Date().toISOString() },
+    ];
+
+    const response = await executeWithRetry(
+      async attempt => responses[attempt - 1],
+      { maxAttempts: 5, baseDelayMs: 1 },
+      { onAttempt: a => attempts.push(a) }
+    );
+
+    expect(response.success).toBe(true);
+    expect(attempts.map(a => a.errorClass)).toEqual([
+      'server_error',
+      'rate_limit',
+      null,
+    ]);
+    expect(attempts[1].delayMs).toBe(0);
+    expect(attempts[2].delayMs).toBeNull();
+  });
+
+  it('should not retry non-transient failures', async () => {
+    let calls = 0;
+    const response = await executeWithRetry(
+      async () => {
+        calls++;
+        return failure('Invalid input');
+      },
+      { maxAttempts: 3, baseDelayMs: 1 }
+    );
+    expect(response.success).toBe(false);
+    expect(calls).toBe(1);
+  });
+
+  it('should classify by HTTP status when the response is known', async () => {
+    const attempts: RetryAttempt[] = [];
+    const statuses: HttpResponseInfo[] = [
+      { status: 503, headers: { 'Retry-After': '0' } },
+      { status: 400, headers: {} },
+    ];
+    const response = await executeWithRetry(
+      async () => failure('text must not exceed 500 characters'),
+      { maxAttempts: 5, baseDelayMs: 1000 },
+      {
+        onAttempt: a => attempts.push(a),
+        responseFor: attempt => statuses[attempt - 1],
+      }
+    );
+    expect(response.success).toBe(false);
+    expect(attempts.map(a => [a.errorClass, a.delayMs])).toEqual([
+      ['server_error', 0],
+      [null, null],
+    ]);
+  });
+
+  it('should not retry client-side timeouts', async () => {
+    let calls = 0;
+    await expect(
+      executeWithRetry(
+        async () => {
+          calls++;
+          throw new RequestTimeoutError(10);
+        },
+        { maxAttempts: 3, baseDelayMs: 1 }
+      )
+    ).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(calls).toBe(1);
+  });
+});
+
+function fakeClient(
+  responses: { status: number; headers?: Record<string, string> }[]
+): NetworkClient & { calls: number } {
+  const client = {
+    calls: 0,
+    async send() {
+      const { status, headers = {} } = responses[client.calls++];
+      return {
+        ok: status < 400,
+        status,
+        statusText: '',
+        headers,
+        success: status < 400,
+        data: { status },
+        timestamp: '',
+      };
+    },
+  };
+  return Object.assign(client, {
+    request: client.send,
+    get: client.send,
+    post: client.send,
+    put: client.send,
+    delete: client.send,
+  }) as unknown as NetworkClient & { calls: number };
+}
+
+describe('createRetryingNetworkClient', () => {
+  it('should retry GET by status but leave POST alone', async () => {
+    const client = fakeClient([
+      { status: 503, headers: { 'retry-after': '0' } },
+      { status: 200 },
+      { status: 503 },
+    ]);
+    const retrying = createRetryingNetworkClient(client, {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+    });
+    expect((await retrying.get('/a')).status).toBe(200);
+    expect((await retrying.post('/b', {})).status).toBe(503);
+    expect(client.calls).toBe(3);
+  });
+});
+
+describe('createResponseTracker', () => {
+  it('should report each tracked call its own response', async () => {
+    const tracker = createResponseTracker(
+      fakeClient([
+        { status: 429, headers: { 'Retry-After': '3' } },
+        { status: 200 },
+        { status: 500 },
+      ])
+    );
+    const seen: [string, number][] = [];
+    await Promise.all([
+      tracker.track(
+        () => tracker.networkClient.post('/a', {}),
+        info => seen.push(['a', info.status])
+      ),
+      tracker.track(
+        () => tracker.networkClient.get('/b'),
+        info => seen.push(['b', info.status])
+      ),
+      tracker.networkClient.get('/untracked'),
+    ]);
+    expect(seen.sort()).toEqual([
+      ['a', 429],
+      ['b', 200],
+    ]);
+  });
+});
+
+describe('computeRetryDelay', () => {
+  it('should back off exponentially up to the maximum', () => {
+    const policy = {
+      maxAttempts: 5,
+      baseDelayMs: 100,
+      maxDelayMs: 300,
+      jitter: false,
+    };
+    expect(computeRetryDelay(policy, 1)).toBe(100);
+    expect(computeRetryDelay(policy, 2)).toBe(200);
+    expect(computeRetryDelay(policy, 3)).toBe(300);
+    expect(computeRetryDelay(policy, 2, 50)).toBe(50);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
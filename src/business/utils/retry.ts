@@ -0,0 +1,449 @@
+/**
+ * Retry policy
+ * Exponential backoff with jitter for transient request failures
+ */
+
+import type {
+  BaseResponse,
+  NetworkClient,
+  Optional,
+} from '@sudobility/shapeshyft_types';
+import { RequestCancelledError, RequestTimeoutError } from './abortable';
+
+/**
+ * Classes of failure a policy may retry
+ */
+export type RetryableErrorClass =
+  | 'rate_limit'
+  | 'server_error'
+  | 'network'
+  | 'timeout';
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for any single delay (default: 10000) */
+  maxDelayMs?: number;
+  /** Multiplier applied per attempt (default: 2) */
+  backoffFactor?: number;
+  /** Randomize delays between 0 and the backoff value (default: true) */
+  jitter?: boolean;
+  /** Failure classes to retry (default: all) */
+  retryOn?: RetryableErrorClass[];
+  /** Wait for Retry-After when the server sends one (default: true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Default retry policy values
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  backoffFactor: 2,
+  jitter: true,
+  retryOn: ['rate_limit', 'server_error', 'network', 'timeout'],
+  respectRetryAfter: true,
+};
+
+/**
+ * Record of one attempt
+ */
+export interface RetryAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+  startedAt: number;
+  durationMs: number;
+  success: boolean;
+  error: Optional<string>;
+  /** Failure class, null when the failure was not transient */
+  errorClass: Optional<RetryableErrorClass>;
+  /** Delay waited before the next attempt, null if none followed */
+  delayMs: Optional<number>;
+}
+
+/**
+ * Classify an HTTP status code
+ */
+export function classifyStatus(status: number): RetryableErrorClass | null {
+  if (status === 429) {
+    return 'rate_limit';
+  }
+  if (status === 408) {
+    return 'timeout';
+  }
+  if (status >= 500 && status <= 599) {
+    return 'server_error';
+  }
+  return null;
+}
+
+/**
+ * Classify an error message. Only used when no HTTP status is known, e.g. for
+ * thrown network errors, so it matches provider phrasing rather than bare
+ * numbers that may belong to unrelated text.
+ */
+export function classifyErrorMessage(
+  message: string
+): RetryableErrorClass | null {
+  if (/rate.?limit|too many requests|quota exceeded/i.test(message)) {
+    return 'rate_limit';
+  }
+  if (
+    /internal server error|bad gateway|service unavailable|gateway timeout|overloaded/i.test(
+      message
+    )
+  ) {
+    return 'server_error';
+  }
+  if (/timed? ?out/i.test(message)) {
+    return 'timeout';
+  }
+  if (
+    /network|failed to fetch|fetch failed|econnreset|econnrefused|socket hang up/i.test(
+      message
+    )
+  ) {
+    return 'network';
+  }
+  return null;
+}
+
+/**
+ * Parse a Retry-After value (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string,
+  now: number = Date.now()
+): number | null {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+  return null;
+}
+
+/**
+ * Status and headers of an HTTP response
+ */
+export interface HttpResponseInfo {
+  status: number;
+  headers: Record<string, string>;
+}
+
+/**
+ * Read the Retry-After header of a response, in milliseconds
+ */
+export function retryAfterFromHeaders(
+  headers: Record<string, string>
+): number | null {
+  const value = Object.entries(headers ?? {}).find(
+    ([key]) => key.toLowerCase() === 'retry-after'
+  )?.[1];
+  return value ? parseRetryAfter(value) : null;
+}
+
+/**
+ * Find a Retry-After hint inside an error message
+ */
+function retryAfterFromMessage(message: string): number | null {
+  const match = /retry[- ]after[:=\s]+(\d+(?:\.\d+)?)/i.exec(message);
+  return match ? parseRetryAfter(match[1]) : null;
+}
+
+/**
+ * Delay before the retry following `attempt` (1-based)
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfterMs: number | null = null,
+  random: () => number = Math.random
+): number {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  if (resolved.respectRetryAfter && retryAfterMs !== null) {
+    return Math.min(retryAfterMs, resolved.maxDelayMs);
+  }
+  const backoff = Math.min(
+    resolved.baseDelayMs * resolved.backoffFactor ** (attempt - 1),
+    resolved.maxDelayMs
+  );
+  return resolved.jitter ? Math.round(random() * backoff) : backoff;
+}
+
+/**
+ * Wait for a delay, rejecting with RequestCancelledError on abort
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Options for executeWithRetry
+ */
+export interface ExecuteWithRetryOptions {
+  /** Cancels pending retries */
+  signal?: AbortSignal;
+  /** Called after every attempt */
+  onAttempt?: (attempt: RetryAttempt) => void;
+  /**
+   * HTTP response behind a failed attempt, when known. Its status and
+   * Retry-After header are used instead of parsing the error message.
+   */
+  responseFor?: (attempt: number) => Optional<HttpResponseInfo>;
+}
+
+/**
+ * Run a request that returns a BaseResponse, retrying transient failures.
+ * Failed responses and thrown errors are both retried. Cancellation is not,
+ * nor is RequestTimeoutError: runWithAbort leaves the timed-out request
+ * running, so retrying would send it again while the first is still billed.
+ * After the last attempt the final response is returned or error rethrown.
+ */
+export async function executeWithRetry<T>(
+  task: (attempt: number) => Promise<BaseResponse<T>>,
+  policy: RetryPolicy,
+  { signal, onAttempt, responseFor }: ExecuteWithRetryOptions = {}
+): Promise<BaseResponse<T>> {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+    let response: BaseResponse<T> | undefined;
+    let thrown: unknown;
+    try {
+      response = await task(attempt);
+    } catch (err) {
+      if (err instanceof RequestCancelledError) {
+        throw err;
+      }
+      thrown = err;
+    }
+
+    const success = response?.success ?? false;
+    const message =
+      thrown !== undefined
+        ? thrown instanceof Error
+          ? thrown.message
+          : String(thrown)
+        : (response?.error ?? null);
+    const timedOut = thrown instanceof RequestTimeoutError;
+    const http = success || timedOut ? null : responseFor?.(attempt);
+    let errorClass: RetryableErrorClass | null = null;
+    if (timedOut) {
+      errorClass = 'timeout';
+    } else if (http) {
+      errorClass = classifyStatus(http.status);
+    } else if (!success) {
+      errorClass = classifyErrorMessage(message ?? '');
+    }
+    const willRetry =
+      !success &&
+      !timedOut &&
+      attempt < maxAttempts &&
+      errorClass !== null &&
+      resolved.retryOn.includes(errorClass);
+    let delayMs: number | null = null;
+    if (willRetry) {
+      const retryAfterMs = http
+        ? retryAfterFromHeaders(http.headers)
+        : message
+          ? retryAfterFromMessage(message)
+          : null;
+      delayMs = computeRetryDelay(resolved, attempt, retryAfterMs);
+    }
+
+    onAttempt?.({
+      attempt,
+      startedAt,
+      durationMs: Date.now() - startedAt,
+      success,
+      error: success ? null : message,
+      errorClass,
+      delayMs,
+    });
+
+    if (!willRetry) {
+      if (thrown !== undefined) {
+        throw thrown;
+      }
+      return response as BaseResponse<T>;
+    }
+    await wait(delayMs ?? 0, signal);
+  }
+}
+
+/**
+ * Wraps one request of a NetworkClient
+ */
+type RequestWrapper = <R extends HttpResponseInfo & { ok: boolean }>(
+  method: NonNullable<RetryingNetworkClientOptions['methods']>[number],
+  send: () => Promise<R>,
+  signal?: Optional<AbortSignal>
+) => Promise<R>;
+
+/**
+ * Build a NetworkClient that passes every request through `wrap`
+ */
+function wrapNetworkClient(
+  networkClient: NetworkClient,
+  wrap: RequestWrapper
+): NetworkClient {
+  return {
+    request: <T>(...args: Parameters<NetworkClient['request']>) =>
+      wrap(
+        args[1]?.method ?? 'GET',
+        () => networkClient.request<T>(...args),
+        args[1]?.signal
+      ),
+    get: <T>(...args: Parameters<NetworkClient['get']>) =>
+      wrap('GET', () => networkClient.get<T>(...args), args[1]?.signal),
+    post: <T>(...args: Parameters<NetworkClient['post']>) =>
+      wrap('POST', () => networkClient.post<T>(...args), args[2]?.signal),
+    put: <T>(...args: Parameters<NetworkClient['put']>) =>
+      wrap('PUT', () => networkClient.put<T>(...args), args[2]?.signal),
+    delete: <T>(...args: Parameters<NetworkClient['delete']>) =>
+      wrap('DELETE', () => networkClient.delete<T>(...args), args[1]?.signal),
+  };
+}
+
+/**
+ * Options for createRetryingNetworkClient
+ */
+export interface RetryingNetworkClientOptions {
+  /** HTTP methods to retry (default: GET only, as it is idempotent) */
+  methods?: ('GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH')[];
+}
+
+/**
+ * Wrap a NetworkClient so matching requests are retried by status code,
+ * honoring the Retry-After response header
+ */
+export function createRetryingNetworkClient(
+  networkClient: NetworkClient,
+  policy: RetryPolicy,
+  { methods = ['GET'] }: RetryingNetworkClientOptions = {}
+): NetworkClient {
+  const resolved = { ...DEFAULT_RETRY_POLICY, ...policy };
+  const maxAttempts = Math.max(1, Math.floor(resolved.maxAttempts));
+
+  const withRetry: RequestWrapper = async <
+    R extends HttpResponseInfo & { ok: boolean },
+  >(
+    method: Parameters<RequestWrapper>[0],
+    send: () => Promise<R>,
+    signal?: Optional<AbortSignal>
+  ): Promise<R> => {
+    if (!methods.includes(method)) {
+      return send();
+    }
+    for (let attempt = 1; ; attempt++) {
+      let response: R | undefined;
+      let errorClass: RetryableErrorClass | null;
+      let retryAfterMs: number | null = null;
+      try {
+        response = await send();
+        if (response.ok) {
+          return response;
+        }
+        errorClass = classifyStatus(response.status);
+        retryAfterMs = retryAfterFromHeaders(response.headers);
+      } catch (err) {
+        if (attempt >= maxAttempts) {
+          throw err;
+        }
+        errorClass = classifyErrorMessage(
+          err instanceof Error ? err.message : String(err)
+        );
+        if (errorClass === null || !resolved.retryOn.includes(errorClass)) {
+          throw err;
+        }
+      }
+      if (
+        response &&
+        (attempt >= maxAttempts ||
+          errorClass === null ||
+          !resolved.retryOn.includes(errorClass))
+      ) {
+        return response;
+      }
+      await wait(
+        computeRetryDelay(resolved, attempt, retryAfterMs),
+        signal ?? undefined
+      );
+    }
+  };
+
+  return wrapNetworkClient(networkClient, withRetry);
+}
+
+/**
+ * A NetworkClient that reports the response to each tracked call
+ */
+export interface ResponseTracker {
+  networkClient: NetworkClient;
+  /**
+   * Call `send` and report the status and headers of the response to the
+   * request it makes. The request must start synchronously within `send`,
+   * as it does for ShapeshyftClient calls, so concurrent calls are told
+   * apart.
+   */
+  track: <T>(
+    send: () => Promise<T>,
+    onResponse: (response: HttpResponseInfo) => void
+  ) => Promise<T>;
+}
+
+/**
+ * Wrap a NetworkClient so callers that only see error strings (such as the
+ * client hooks) can still learn the HTTP status and Retry-After header
+ */
+export function createResponseTracker(
+  networkClient: NetworkClient
+): ResponseTracker {
+  let current: ((response: HttpResponseInfo) => void) | null = null;
+
+  return {
+    networkClient: wrapNetworkClient(networkClient, (_method, send) => {
+      const report = current;
+      return send().then(response => {
+        report?.({ status: response.status, headers: response.headers ?? {} });
+        return response;
+      });
+    }),
+    track: (send, onResponse) => {
+      const previous = current;
+      current = onResponse;
+      try {
+        return send();
+      } finally {
+        current = previous;
+      }
+    },
+  };
+}
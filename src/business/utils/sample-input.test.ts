@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+import { generateSamples, generateSampleValue } from './sample-input';
+import { validateJsonSchema } from './json-schema-validator';
+import { ALL_TEMPLATES } from '../templates/endpoint-templates';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    email: { type: 'string', format: 'email' },
+    day: { type: 'string', format: 'date' },
+    created: { type: 'string', format: 'date-time' },
+    homepage: { type: 'string', format: 'uri' },
+    id: { type: 'string', format: 'uuid' },
+    code: { type: 'string', pattern: '^[A-Z]{3}-\\d{4}$' },
+    short: { type: 'string', minLength: 5, maxLength: 8 },
+    rating: { type: 'integer', minimum: 1, maximum: 5 },
+    tags: { type: 'array', items: { type: 'string' }, minItems: 2 },
+    tone: { type: 'string', examples: ['warm'] },
+  },
+  required: ['email'],
+};
+
+describe('generateSampleValue', () => {
+  it('should honor formats, bounds, patterns and examples', () => {
+    for (const sample of generateSamples(schema, 20, { seed: 'formats' })) {
+      expect(validateJsonSchema(sample, schema).errors).toEqual([]);
+      const value = sample as Record<string, unknown>;
+      expect((value.tags as unknown[]).length).toBeGreaterThanOrEqual(2);
+      expect(value.tone).toBe('warm');
+    }
+  });
+
+  it('should return the same samples for the same seed', () => {
+    expect(generateSamples(schema, 3, { seed: 42 })).toEqual(
+      generateSamples(schema, 3, { seed: 42 })
+    );
+    const varied = generateSamples(schema, 5, { seed: 42 });
+    expect(new Set(varied.map(v => JSON.stringify(v))).size).toBeGreaterThan(1);
+  });
+
+  it('should produce valid, realistic inputs for every template', () => {
+    for (const template of ALL_TEMPLATES) {
+      for (const endpoint of template.endpoints) {
+        const sample = generateSampleValue(endpoint.input_schema);
+        expect(
+          validateJsonSchema(sample, endpoint.input_schema).errors
+        ).toEqual([]);
+      }
+    }
+
+    const translate = ALL_TEMPLATES.flatMap(t => t.endpoints).find(
+      e => e.endpoint_name === 'translate-batch'
+    );
+    const input = generateSampleValue(translate!.input_schema) as {
+      texts: string[];
+      target_languages: string[];
+    };
+    expect(input.texts[0]).toMatch(/\s/);
+    for (const code of input.target_languages) {
+      expect(code).toMatch(/^[a-z]{2}$/);
+    }
+  });
+});
@@ -0,0 +1,692 @@
+/**
+ * Sample input generation
+ * Build realistic, schema-valid example values from JSON Schemas. Output is
+ * driven by a seeded generator so the same seed always yields the same values.
+ */
+
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+
+/**
+ * Options for sample generation
+ */
+export interface SampleOptions {
+  /** Seed for the random generator (default: 1) */
+  seed?: number | string;
+  /** Include properties that are not required (default: true) */
+  includeOptional?: boolean;
+  /** Maximum nesting depth before values are cut off (default: 8) */
+  maxDepth?: number;
+}
+
+/**
+ * Create a deterministic random generator returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number | string = 1): () => number {
+  let state =
+    typeof seed === 'number'
+      ? seed >>> 0
+      : Array.from(seed).reduce(
+          (hash, char) => Math.imul(hash ^ char.charCodeAt(0), 16777619),
+          2166136261
+        ) >>> 0;
+  // mulberry32
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const SENTENCES = [
+  'The new dashboard makes it much easier to track orders, but the export button is hard to find.',
+  'Our team shipped the quarterly release on time and customer feedback has been very positive.',
+  'I was charged twice for my subscription this month and would like a refund for the duplicate payment.',
+  'Acme Corp announced on March 3 that Jane Smith will lead its new office in Berlin.',
+  'The hotel room was clean and quiet, although breakfast ended earlier than advertised.',
+  'Please reset my password; the reset email never arrived in my inbox.',
+  'Invoice INV-20431 from Northwind Traders totals $1,250.00 and is due on 2024-07-15.',
+  'Remote work has changed how companies hire, with many teams now spread across several time zones.',
+];
+const TITLES = [
+  'Quarterly Product Update',
+  'Getting Started with the API',
+  'Refund Request',
+  'Team Offsite Planning',
+  'Weekly Status Report',
+];
+const FIRST_NAMES = ['Jane', 'Carlos', 'Aiko', 'Omar', 'Priya', 'Lukas'];
+const LAST_NAMES = ['Smith', 'Garcia', 'Tanaka', 'Haddad', 'Patel', 'Müller'];
+const LANGUAGE_CODES = ['en', 'es', 'fr', 'de', 'ja', 'zh', 'it', 'pt'];
+const LANGUAGE_NAMES = ['English', 'Spanish', 'French', 'German', 'Japanese'];
+const COUNTRIES = ['United States', 'Germany', 'Japan', 'Brazil', 'India'];
+const CITIES = ['Berlin', 'Tokyo', 'São Paulo', 'Toronto', 'Mumbai'];
+const CURRENCIES = ['USD', 'EUR', 'JPY', 'GBP', 'INR'];
+const CATEGORIES = ['billing', 'technical_support', 'sales', 'general'];
+const ENTITY_TYPES = ['person', 'organization', 'location', 'date'];
+const FIELD_NAMES = [
+  'invoice_number',
+  'customer_name',
+  'total_amount',
+  'due_date',
+  'email',
+];
+const FIELD_TYPES = ['string', 'number', 'date', 'boolean'];
+const FIELD_DESCRIPTIONS = [
+  'Invoice identifier printed near the top of the document',
+  'Full name of the customer being billed',
+  'Total amount due, including tax',
+  'Date the payment is due',
+];
+const TAGS = ['urgent', 'feedback', 'onboarding', 'feature_request'];
+const WORDS = ['alpha', 'harbor', 'summit', 'meadow', 'signal', 'ember'];
+
+interface GenerationContext {
+  random: () => number;
+  includeOptional: boolean;
+  maxDepth: number;
+}
+
+function pick<T>(random: () => number, values: readonly T[]): T {
+  return values[Math.floor(random() * values.length)];
+}
+
+function randomInt(random: () => number, min: number, max: number): number {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+/**
+ * Singular form of a property name, used as the hint for array items
+ */
+function singularize(name: string): string {
+  if (/ies$/.test(name)) {
+    return `${name.slice(0, -3)}y`;
+  }
+  if (/(ss|us)$/.test(name)) {
+    return name;
+  }
+  return name.replace(/s$/, '');
+}
+
+function sampleUuid(random: () => number): string {
+  const hex = Array.from({ length: 32 }, () =>
+    Math.floor(random() * 16).toString(16)
+  );
+  hex[12] = '4';
+  hex[16] = '89ab'[Math.floor(random() * 4)];
+  const s = hex.join('');
+  return `${s.slice(0, 8)}-${s.slice(8, 12)}-${s.slice(12, 16)}-${s.slice(16, 20)}-${s.slice(20)}`;
+}
+
+function sampleDate(random: () => number): Date {
+  const from = Date.UTC(2020, 0, 1);
+  const to = Date.UTC(2025, 11, 31);
+  return new Date(from + Math.floor(random() * (to - from)));
+}
+
+function sampleEmail(random: () => number): string {
+  const first = pick(random, FIRST_NAMES).toLowerCase();
+  const last = pick(random, LAST_NAMES)
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[^a-z]/g, '');
+  return `${first}.${last}@example.com`;
+}
+
+/**
+ * Value for a string `format`, or undefined for unknown formats
+ */
+function sampleFormat(
+  format: string,
+  random: () => number
+): string | undefined {
+  switch (format) {
+    case 'email':
+      return sampleEmail(random);
+    case 'date':
+      return sampleDate(random).toISOString().slice(0, 10);
+    case 'date-time':
+      return sampleDate(random)
+        .toISOString()
+        .replace(/\.\d{3}Z$/, 'Z');
+    case 'time':
+      return `${sampleDate(random).toISOString().slice(11, 19)}Z`;
+    case 'uri':
+    case 'url':
+      return `https://example.com/${pick(random, WORDS)}/${randomInt(random, 1, 999)}`;
+    case 'uuid':
+      return sampleUuid(random);
+    case 'hostname':
+      return `${pick(random, WORDS)}.example.com`;
+    case 'ipv4':
+      return [10, randomInt(random, 0, 255), randomInt(random, 0, 255)]
+        .concat(randomInt(random, 1, 254))
+        .join('.');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Realistic string chosen from the property name (and its parent's, for array
+ * items and nested objects) or description
+ */
+function sampleStringByHint(
+  hint: string,
+  description: string,
+  random: () => number
+): string {
+  const name = hint.toLowerCase();
+  const leaf = name.split('.').pop() ?? '';
+
+  if (/field\.name$/.test(name) || leaf === 'field') {
+    return pick(random, FIELD_NAMES);
+  }
+  if (/field\.type$/.test(name)) {
+    return pick(random, FIELD_TYPES);
+  }
+  if (/field\.description$/.test(name)) {
+    return pick(random, FIELD_DESCRIPTIONS);
+  }
+  if (/lang/.test(leaf)) {
+    return /code|e\.g\., "[a-z]{2}"/i.test(description) ||
+      /(language|lang)$/.test(leaf)
+      ? pick(random, LANGUAGE_CODES)
+      : pick(random, LANGUAGE_NAMES);
+  }
+  if (/email/.test(leaf)) {
+    return sampleEmail(random);
+  }
+  if (/(^|_)(url|uri|link|website)$/.test(leaf)) {
+    return sampleFormat('uri', random) as string;
+  }
+  if (/(^|_)(id|uuid)$/.test(leaf)) {
+    return sampleUuid(random);
+  }
+  if (/(_at|timestamp)$/.test(leaf)) {
+    return sampleFormat('date-time', random) as string;
+  }
+  if (/date$/.test(leaf)) {
+    return sampleFormat('date', random) as string;
+  }
+  if (/entity_type$/.test(leaf)) {
+    return pick(random, ENTITY_TYPES);
+  }
+  if (/categor/.test(leaf)) {
+    return pick(random, CATEGORIES);
+  }
+  if (/(^|_)(tag|label)$/.test(leaf)) {
+    return pick(random, TAGS);
+  }
+  if (/(first_name|given_name)$/.test(leaf)) {
+    return pick(random, FIRST_NAMES);
+  }
+  if (/(last_name|family_name|surname)$/.test(leaf)) {
+    return pick(random, LAST_NAMES);
+  }
+  if (/(^|_)(name|author|customer|user|owner)$/.test(leaf)) {
+    return `${pick(random, FIRST_NAMES)} ${pick(random, LAST_NAMES)}`;
+  }
+  if (/(title|subject|headline)$/.test(leaf)) {
+    return pick(random, TITLES);
+  }
+  if (/country/.test(leaf)) {
+    return pick(random, COUNTRIES);
+  }
+  if (/city/.test(leaf)) {
+    return pick(random, CITIES);
+  }
+  if (/currency/.test(leaf)) {
+    return pick(random, CURRENCIES);
+  }
+  if (/phone/.test(leaf)) {
+    return `+1-555-${String(randomInt(random, 100, 999))}-${String(randomInt(random, 1000, 9999))}`;
+  }
+  if (
+    /text|content|message|body|description|context|comment|review|query|prompt|summary|note|question|answer/.test(
+      leaf
+    ) ||
+    /text|message|content/i.test(description)
+  ) {
+    return pick(random, SENTENCES);
+  }
+  if (/(type|kind|style|mode|status|tone)$/.test(leaf)) {
+    return pick(random, WORDS);
+  }
+  return `${pick(random, WORDS)} ${pick(random, WORDS)}`;
+}
+
+/**
+ * Stretch or trim a string to the schema's length bounds
+ */
+function fitLength(value: string, schema: JsonSchema): string {
+  let result = value;
+  if (schema.maxLength !== undefined && result.length > schema.maxLength) {
+    result = result.slice(0, schema.maxLength).trimEnd();
+  }
+  const minLength = schema.minLength ?? 0;
+  while (result.length < minLength) {
+    result += result.length === 0 ? 'sample' : ` ${result}`;
+  }
+  if (schema.maxLength !== undefined && result.length > schema.maxLength) {
+    result = result.slice(0, schema.maxLength);
+  }
+  return result;
+}
+
+type PatternNode =
+  | { kind: 'literal'; chars: string[] }
+  | { kind: 'group'; branches: PatternNode[][] }
+  | { kind: 'repeat'; node: PatternNode; min: number; max: number };
+
+const DIGITS = '0123456789'.split('');
+const WORD_CHARS =
+  'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789_'.split('');
+
+/**
+ * Parse the subset of regex syntax needed to generate a matching string:
+ * literals, classes, groups, alternation and quantifiers. Throws on
+ * anything else.
+ */
+function parsePattern(pattern: string): PatternNode {
+  let pos = 0;
+
+  const escape = (): string[] => {
+    const char = pattern[pos++];
+    switch (char) {
+      case 'd':
+        return DIGITS;
+      case 'w':
+        return WORD_CHARS;
+      case 's':
+        return [' '];
+      case undefined:
+        throw new Error('Dangling escape');
+      default:
+        if (/[a-zA-Z]/.test(char)) {
+          throw new Error(`Unsupported escape \\${char}`);
+        }
+        return [char];
+    }
+  };
+
+  const charClass = (): string[] => {
+    if (pattern[pos] === '^') {
+      throw new Error('Negated classes are not supported');
+    }
+    const chars: string[] = [];
+    while (pos < pattern.length && pattern[pos] !== ']') {
+      const char = pattern[pos++];
+      if (char === '\\') {
+        chars.push(...escape());
+      } else if (
+        pattern[pos] === '-' &&
+        pattern[pos + 1] !== undefined &&
+        pattern[pos + 1] !== ']'
+      ) {
+        const end = pattern[pos + 1];
+        pos += 2;
+        for (let c = char.charCodeAt(0); c <= end.charCodeAt(0); c++) {
+          chars.push(String.fromCharCode(c));
+        }
+      } else {
+        chars.push(char);
+      }
+    }
+    if (pattern[pos++] !== ']' || chars.length === 0) {
+      throw new Error('Unterminated class');
+    }
+    return chars;
+  };
+
+  const quantify = (node: PatternNode): PatternNode => {
+    const char = pattern[pos];
+    let min: number;
+    let max: number;
+    if (char === '?' || char === '*' || char === '+') {
+      pos++;
+      min = char === '+' ? 1 : 0;
+      max = char === '?' ? 1 : min + 3;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(pos));
+      if (!match) {
+        return node;
+      }
+      pos += match[0].length;
+      min = Number(match[1]);
+      max =
+        match[2] === undefined ? min : match[3] ? Number(match[3]) : min + 3;
+    } else {
+      return node;
+    }
+    if (pattern[pos] === '?') {
+      pos++;
+    }
+    return { kind: 'repeat', node, min, max };
+  };
+
+  const sequence = (): PatternNode[] => {
+    const nodes: PatternNode[] = [];
+    while (
+      pos < pattern.length &&
+      pattern[pos] !== '|' &&
+      pattern[pos] !== ')'
+    ) {
+      const char = pattern[pos++];
+      let node: PatternNode;
+      if (char === '^' || char === '$') {
+        continue;
+      } else if (char === '(') {
+        if (pattern[pos] === '?') {
+          if (pattern[pos + 1] !== ':') {
+            throw new Error('Lookarounds are not supported');
+          }
+          pos += 2;
+        }
+        node = alternation();
+        if (pattern[pos++] !== ')') {
+          throw new Error('Unterminated group');
+        }
+      } else if (char === '[') {
+        node = { kind: 'literal', chars: charClass() };
+      } else if (char === '\\') {
+        node = { kind: 'literal', chars: escape() };
+      } else if (char === '.') {
+        node = { kind: 'literal', chars: WORD_CHARS };
+      } else {
+        node = { kind: 'literal', chars: [char] };
+      }
+      nodes.push(quantify(node));
+    }
+    return nodes;
+  };
+
+  const alternation = (): PatternNode => {
+    const branches = [sequence()];
+    while (pattern[pos] === '|') {
+      pos++;
+      branches.push(sequence());
+    }
+    return { kind: 'group', branches };
+  };
+
+  const root = alternation();
+  if (pos < pattern.length) {
+    throw new Error('Unbalanced pattern');
+  }
+  return root;
+}
+
+function renderPattern(node: PatternNode, random: () => number): string {
+  switch (node.kind) {
+    case 'literal':
+      return pick(random, node.chars);
+    case 'group':
+      return pick(random, node.branches)
+        .map(n => renderPattern(n, random))
+        .join('');
+    case 'repeat': {
+      const count = randomInt(random, node.min, node.max);
+      return Array.from({ length: count }, () =>
+        renderPattern(node.node, random)
+      ).join('');
+    }
+  }
+}
+
+/**
+ * Generate a string matching a regex pattern, or null if the pattern uses
+ * syntax the generator does not support
+ */
+function sampleFromPattern(
+  pattern: string,
+  random: () => number
+): string | null {
+  try {
+    const regex = new RegExp(pattern, 'u');
+    const value = renderPattern(parsePattern(pattern), random);
+    return regex.test(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    return true;
+  }
+}
+
+function sampleString(
+  schema: JsonSchema,
+  hint: string,
+  random: () => number
+): string {
+  const formatted =
+    typeof schema.format === 'string'
+      ? sampleFormat(schema.format, random)
+      : undefined;
+  const candidate =
+    formatted ??
+    fitLength(
+      sampleStringByHint(hint, schema.description ?? '', random),
+      schema
+    );
+  if (schema.pattern && !matchesPattern(candidate, schema.pattern)) {
+    return sampleFromPattern(schema.pattern, random) ?? candidate;
+  }
+  return candidate;
+}
+
+function sampleNumber(
+  schema: JsonSchema,
+  integer: boolean,
+  hint: string,
+  random: () => number
+): number {
+  const exclusiveMinimum =
+    typeof schema.exclusiveMinimum === 'number'
+      ? schema.exclusiveMinimum
+      : undefined;
+  const exclusiveMaximum =
+    typeof schema.exclusiveMaximum === 'number'
+      ? schema.exclusiveMaximum
+      : undefined;
+  const step = integer ? 1 : 0.01;
+  let min =
+    schema.minimum ??
+    (exclusiveMinimum !== undefined ? exclusiveMinimum + step : undefined);
+  let max =
+    schema.maximum ??
+    (exclusiveMaximum !== undefined ? exclusiveMaximum - step : undefined);
+
+  if (min === undefined && max === undefined) {
+    const name = hint.toLowerCase();
+    if (/age$/.test(name)) {
+      [min, max] = [18, 80];
+    } else if (/(score|confidence|probability|ratio)$/.test(name)) {
+      [min, max] = integer ? [0, 100] : [0, 1];
+    } else if (/(length|words|limit|count|size)$/.test(name)) {
+      [min, max] = [50, 300];
+    } else {
+      [min, max] = [1, 100];
+    }
+  }
+  min ??= Math.min(0, max as number);
+  max ??= min + 100;
+
+  const multipleOf =
+    typeof schema.multipleOf === 'number' && schema.multipleOf > 0
+      ? schema.multipleOf
+      : undefined;
+  if (multipleOf !== undefined) {
+    const low = Math.ceil(min / multipleOf);
+    const high = Math.floor(max / multipleOf);
+    return high >= low ? randomInt(random, low, high) * multipleOf : min;
+  }
+  if (integer) {
+    const low = Math.ceil(min);
+    const high = Math.floor(max);
+    return high >= low ? randomInt(random, low, high) : low;
+  }
+  const value = min + random() * (max - min);
+  return Math.min(max, Math.max(min, Math.round(value * 100) / 100));
+}
+
+function primaryType(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) {
+    return (schema.type as string[]).find(t => t !== 'null') ?? 'null';
+  }
+  if (schema.type) {
+    return schema.type;
+  }
+  if (schema.properties) {
+    return 'object';
+  }
+  if (schema.items) {
+    return 'array';
+  }
+  return undefined;
+}
+
+function generate(
+  schema: JsonSchema,
+  hint: string,
+  depth: number,
+  ctx: GenerationContext
+): unknown {
+  const { random } = ctx;
+
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    return pick(random, schema.examples);
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return pick(random, schema.enum);
+  }
+  const variants = (schema.oneOf ?? schema.anyOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return generate(variants[0], hint, depth, ctx);
+  }
+  if (Array.isArray(schema.allOf)) {
+    const merged = (schema.allOf as JsonSchema[]).reduce<JsonSchema>(
+      (acc, part) => ({
+        ...acc,
+        ...part,
+        properties: { ...acc.properties, ...part.properties },
+        required: [...(acc.required ?? []), ...(part.required ?? [])],
+      }),
+      { ...schema, allOf: undefined }
+    );
+    return generate(merged, hint, depth, ctx);
+  }
+
+  const name = hint.split('.').pop() ?? '';
+  const type = primaryType(schema);
+  switch (type) {
+    case 'string':
+      return sampleString(schema, hint, random);
+
+    case 'number':
+    case 'integer':
+      return sampleNumber(schema, type === 'integer', name, random);
+
+    case 'boolean':
+      return random() < 0.5;
+
+    case 'array': {
+      if (!schema.items || depth >= ctx.maxDepth) {
+        return [];
+      }
+      const minItems =
+        typeof schema.minItems === 'number' ? schema.minItems : 1;
+      const maxItems =
+        typeof schema.maxItems === 'number'
+          ? schema.maxItems
+          : Math.max(minItems, 3);
+      const count = randomInt(
+        random,
+        minItems,
+        Math.max(minItems, Math.min(maxItems, minItems + 2))
+      );
+      const itemHint = `${name}.${singularize(name)}`;
+      const items: unknown[] = [];
+      // Avoid duplicate primitives such as repeated language codes
+      for (
+        let attempt = 0;
+        items.length < count && attempt < count * 5;
+        attempt++
+      ) {
+        const item = generate(schema.items, itemHint, depth + 1, ctx);
+        const duplicate =
+          typeof item !== 'object' && items.some(existing => existing === item);
+        if (!duplicate || attempt >= count * 4) {
+          items.push(item);
+        }
+      }
+      return items;
+    }
+
+    case 'object': {
+      const obj: Record<string, unknown> = {};
+      if (depth >= ctx.maxDepth) {
+        return obj;
+      }
+      const required = new Set(schema.required ?? []);
+      for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+        if (ctx.includeOptional || required.has(key)) {
+          obj[key] = generate(
+            propSchema,
+            name ? `${singularize(name)}.${key}` : key,
+            depth + 1,
+            ctx
+          );
+        }
+      }
+      return obj;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Generate a sample value for a JSON Schema. Honors const, examples,
+ * default and enum, produces valid values for common formats, respects
+ * length, range, item count and pattern constraints, and picks realistic
+ * values based on property names.
+ */
+export function generateSampleValue(
+  schema: JsonSchema,
+  options: SampleOptions = {}
+): unknown {
+  return generateSamples(schema, 1, options)[0];
+}
+
+/**
+ * Generate `count` varied samples for a JSON Schema. The same seed always
+ * yields the same samples.
+ */
+export function generateSamples(
+  schema: JsonSchema,
+  count: number,
+  { seed = 1, includeOptional = true, maxDepth = 8 }: SampleOptions = {}
+): unknown[] {
+  const ctx: GenerationContext = {
+    random: createSeededRandom(seed),
+    includeOptional,
+    maxDepth,
+  };
+  return Array.from({ length: Math.max(0, count) }, () =>
+    generate(schema, '', 0, ctx)
+  );
+}
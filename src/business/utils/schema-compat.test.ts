@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+import { checkSchemaCompatibility, compareSchemas } from './schema-compat';
+
+const input: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', maxLength: 5000 },
+    tone: { type: 'string', enum: ['formal', 'casual', 'neutral'] },
+  },
+  required: ['text'],
+};
+
+describe('compareSchemas', () => {
+  it('should flag input changes that reject previously valid requests', () => {
+    const changes = compareSchemas(
+      input,
+      {
+        type: 'object',
+        properties: {
+          text: { type: 'string', maxLength: 2000 },
+          tone: { type: 'string', enum: ['formal', 'casual', 'playful'] },
+          language: { type: 'string' },
+          audience: { type: 'string' },
+        },
+        required: ['text', 'language'],
+      },
+      'input'
+    );
+    const summary = changes.map(c => [c.path, c.kind, c.breaking]);
+    expect(summary).toEqual([
+      ['/text', 'constraint-changed', true],
+      ['/tone', 'enum-changed', true],
+      ['/tone', 'enum-changed', false],
+      ['/language', 'property-added', true],
+      ['/audience', 'property-added', false],
+    ]);
+  });
+
+  it('should flag output changes callers cannot rely on', () => {
+    const before: JsonSchema = {
+      type: 'object',
+      properties: {
+        sentiment: { type: 'string', enum: ['positive', 'negative'] },
+        score: { type: 'integer' },
+        tags: { type: 'array', items: { type: 'string' } },
+      },
+      required: ['sentiment', 'score'],
+    };
+    const changes = compareSchemas(
+      before,
+      {
+        type: 'object',
+        properties: {
+          sentiment: {
+            type: 'string',
+            enum: ['positive', 'negative', 'mixed'],
+          },
+          score: { type: 'number' },
+          tags: { type: 'array', items: { type: 'string' } },
+          summary: { type: 'string' },
+        },
+        required: ['sentiment', 'tags'],
+      },
+      'output'
+    );
+    const summary = changes.map(c => [c.path, c.kind, c.breaking]);
+    expect(summary).toEqual([
+      ['/sentiment', 'enum-changed', true],
+      ['/score', 'type-changed', true],
+      ['/summary', 'property-added', false],
+      ['/tags', 'required-added', false],
+      ['/score', 'required-removed', true],
+    ]);
+  });
+
+  it('should report a removed schema as widening', () => {
+    expect(
+      compareSchemas(input, null, 'input').map(c => [c.kind, c.breaking])
+    ).toEqual([['schema-removed', false]]);
+    expect(
+      compareSchemas({ type: 'object' }, null, 'output').map(c => [
+        c.kind,
+        c.breaking,
+      ])
+    ).toEqual([['schema-removed', true]]);
+  });
+});
+
+describe('checkSchemaCompatibility', () => {
+  it('should ignore schemas the update leaves unset', () => {
+    const report = checkSchemaCompatibility(
+      { input_schema: input, output_schema: { type: 'object' } },
+      {
+        input_schema: {
+          ...input,
+          properties: {
+            ...input.properties,
+            tone: {
+              type: 'string',
+              enum: ['formal', 'casual', 'neutral', 'x'],
+            },
+          },
+        },
+        output_schema: null,
+      }
+    );
+    expect(report.compatible).toBe(true);
+    expect(report.changes).toHaveLength(1);
+  });
+
+  it('should treat null schemas as unchanged', () => {
+    const report = checkSchemaCompatibility(
+      { input_schema: input, output_schema: { type: 'object' } },
+      { input_schema: null, output_schema: null }
+    );
+    expect(report).toEqual({
+      compatible: true,
+      changes: [],
+      breakingChanges: [],
+    });
+  });
+
+  it('should treat a new input schema as breaking', () => {
+    const report = checkSchemaCompatibility(
+      { input_schema: null, output_schema: null },
+      { input_schema: input, output_schema: undefined }
+    );
+    expect(report.compatible).toBe(false);
+    expect(report.breakingChanges[0].kind).toBe('schema-added');
+  });
+});
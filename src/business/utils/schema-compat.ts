@@ -0,0 +1,441 @@
+/**
+ * Schema compatibility
+ * Classify changes between two versions of an endpoint's schemas as breaking
+ * or non-breaking for existing callers
+ */
+
+import type {
+  Endpoint,
+  EndpointUpdateRequest,
+  JsonSchema,
+} from '@sudobility/shapeshyft_types';
+import { escapeJsonPointer, isJsonEqual } from './json-schema-validator';
+
+/**
+ * Which side of the endpoint a schema describes. Callers send input, so
+ * accepting less is breaking; callers consume output, so returning more is
+ * breaking.
+ */
+export type SchemaDirection = 'input' | 'output';
+
+export type SchemaChangeKind =
+  | 'schema-added'
+  | 'schema-removed'
+  | 'property-added'
+  | 'property-removed'
+  | 'required-added'
+  | 'required-removed'
+  | 'type-changed'
+  | 'enum-changed'
+  | 'constraint-changed'
+  | 'format-changed'
+  | 'additional-properties-changed';
+
+/**
+ * How a change affects the set of values a schema allows
+ */
+export type SchemaChangeEffect = 'narrowed' | 'widened' | 'changed';
+
+/**
+ * A single difference between two schema versions
+ */
+export interface SchemaChange {
+  schema: SchemaDirection;
+  /** JSON Pointer into the data; `-` stands for any array item */
+  path: string;
+  kind: SchemaChangeKind;
+  effect: SchemaChangeEffect;
+  breaking: boolean;
+  message: string;
+}
+
+/**
+ * Result of comparing an endpoint with a proposed update
+ */
+export interface SchemaCompatibilityReport {
+  compatible: boolean;
+  changes: SchemaChange[];
+  breakingChanges: SchemaChange[];
+}
+
+type Schema = JsonSchema | null | undefined;
+
+const LOWER_BOUNDS = [
+  'minimum',
+  'exclusiveMinimum',
+  'minLength',
+  'minItems',
+  'minProperties',
+] as const;
+const UPPER_BOUNDS = [
+  'maximum',
+  'exclusiveMaximum',
+  'maxLength',
+  'maxItems',
+  'maxProperties',
+] as const;
+
+function isBreaking(
+  effect: SchemaChangeEffect,
+  direction: SchemaDirection
+): boolean {
+  if (effect === 'changed') {
+    return true;
+  }
+  return direction === 'input' ? effect === 'narrowed' : effect === 'widened';
+}
+
+function schemaTypes(schema: JsonSchema): string[] | undefined {
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  if (schema.type) {
+    return [schema.type];
+  }
+  if (schema.properties) {
+    return ['object'];
+  }
+  if (schema.items) {
+    return ['array'];
+  }
+  return undefined;
+}
+
+/**
+ * Whether every value of type `type` is also allowed by `types`
+ */
+function typeCovered(type: string, types: string[]): boolean {
+  return (
+    types.includes(type) || (type === 'integer' && types.includes('number'))
+  );
+}
+
+/**
+ * Allowed literal values, treating const as a one-value enum
+ */
+function allowedValues(schema: JsonSchema): unknown[] | undefined {
+  if (schema.const !== undefined) {
+    return [schema.const];
+  }
+  return Array.isArray(schema.enum) ? schema.enum : undefined;
+}
+
+function describe(values: unknown[]): string {
+  return values.map(value => JSON.stringify(value)).join(', ');
+}
+
+function label(path: string): string {
+  return path || '(root)';
+}
+
+class SchemaComparer {
+  readonly changes: SchemaChange[] = [];
+
+  constructor(private readonly direction: SchemaDirection) {}
+
+  private add(
+    path: string,
+    kind: SchemaChangeKind,
+    effect: SchemaChangeEffect,
+    message: string,
+    breaking = isBreaking(effect, this.direction)
+  ): void {
+    this.changes.push({
+      schema: this.direction,
+      path,
+      kind,
+      effect,
+      breaking,
+      message,
+    });
+  }
+
+  compare(before: JsonSchema, after: JsonSchema, path: string): void {
+    this.compareTypes(before, after, path);
+    this.compareValues(before, after, path);
+    this.compareBounds(before, after, path);
+    this.compareFormat(before, after, path);
+    this.compareObject(before, after, path);
+    if (before.items || after.items) {
+      this.compare(before.items ?? {}, after.items ?? {}, `${path}/-`);
+    }
+  }
+
+  private compareTypes(before: JsonSchema, after: JsonSchema, path: string) {
+    const from = schemaTypes(before);
+    const to = schemaTypes(after);
+    if (isJsonEqual(from, to) || !to) {
+      if (from && !to) {
+        this.add(
+          path,
+          'type-changed',
+          'widened',
+          `${label(path)} no longer restricts its type (was ${from.join(' | ')})`
+        );
+      }
+      return;
+    }
+    if (!from) {
+      this.add(
+        path,
+        'type-changed',
+        'narrowed',
+        `${label(path)} is now restricted to ${to.join(' | ')}`
+      );
+      return;
+    }
+    const lost = from.filter(type => !typeCovered(type, to));
+    const gained = to.filter(type => !typeCovered(type, from));
+    if (lost.length === 0 && gained.length === 0) {
+      return;
+    }
+    const effect: SchemaChangeEffect =
+      lost.length > 0 && gained.length > 0
+        ? 'changed'
+        : lost.length > 0
+          ? 'narrowed'
+          : 'widened';
+    this.add(
+      path,
+      'type-changed',
+      effect,
+      `${label(path)} type changed from ${from.join(' | ')} to ${to.join(' | ')}`
+    );
+  }
+
+  private compareValues(before: JsonSchema, after: JsonSchema, path: string) {
+    const from = allowedValues(before);
+    const to = allowedValues(after);
+    if (!from) {
+      if (to) {
+        this.add(
+          path,
+          'enum-changed',
+          'narrowed',
+          `${label(path)} is now limited to ${describe(to)}`
+        );
+      }
+      return;
+    }
+    if (!to) {
+      this.add(
+        path,
+        'enum-changed',
+        'widened',
+        `${label(path)} is no longer limited to ${describe(from)}`
+      );
+      return;
+    }
+    const removed = from.filter(v => !to.some(w => isJsonEqual(v, w)));
+    const added = to.filter(v => !from.some(w => isJsonEqual(v, w)));
+    if (removed.length > 0) {
+      this.add(
+        path,
+        'enum-changed',
+        'narrowed',
+        `${label(path)} no longer allows ${describe(removed)}`
+      );
+    }
+    if (added.length > 0) {
+      this.add(
+        path,
+        'enum-changed',
+        'widened',
+        `${label(path)} now allows ${describe(added)}`
+      );
+    }
+  }
+
+  private compareBounds(before: JsonSchema, after: JsonSchema, path: string) {
+    const bounds = [
+      ...LOWER_BOUNDS.map(key => [key, 1] as const),
+      ...UPPER_BOUNDS.map(key => [key, -1] as const),
+    ];
+    for (const [key, sign] of bounds) {
+      const from = before[key];
+      const to = after[key];
+      if (from === to) {
+        continue;
+      }
+      const hasFrom = typeof from === 'number';
+      const hasTo = typeof to === 'number';
+      if (!hasFrom && !hasTo) {
+        continue;
+      }
+      // A lower bound that rises, or an upper bound that falls, narrows
+      const narrowed = !hasFrom || (hasTo && (to - from) * sign > 0);
+      this.add(
+        path,
+        'constraint-changed',
+        narrowed ? 'narrowed' : 'widened',
+        hasTo
+          ? `${label(path)} ${key} changed from ${hasFrom ? from : 'none'} to ${to}`
+          : `${label(path)} ${key} ${from} was removed`
+      );
+    }
+  }
+
+  private compareFormat(before: JsonSchema, after: JsonSchema, path: string) {
+    for (const key of ['format', 'pattern'] as const) {
+      const from = before[key];
+      const to = after[key];
+      if (from === to) {
+        continue;
+      }
+      const effect: SchemaChangeEffect =
+        from === undefined
+          ? 'narrowed'
+          : to === undefined
+            ? 'widened'
+            : 'changed';
+      this.add(
+        path,
+        'format-changed',
+        effect,
+        to === undefined
+          ? `${label(path)} ${key} ${JSON.stringify(from)} was removed`
+          : `${label(path)} ${key} changed from ${from === undefined ? 'none' : JSON.stringify(from)} to ${JSON.stringify(to)}`
+      );
+    }
+  }
+
+  private compareObject(before: JsonSchema, after: JsonSchema, path: string) {
+    const fromProps = before.properties ?? {};
+    const toProps = after.properties ?? {};
+    const fromRequired = new Set(before.required ?? []);
+    const toRequired = new Set(after.required ?? []);
+    const closed = after.additionalProperties === false;
+
+    for (const [key, schema] of Object.entries(toProps)) {
+      const childPath = `${path}/${escapeJsonPointer(key)}`;
+      const previous = fromProps[key];
+      if (previous) {
+        this.compare(previous, schema, childPath);
+        continue;
+      }
+      // Extra output fields are harmless; only required input fields break
+      const required = toRequired.has(key);
+      this.add(
+        childPath,
+        'property-added',
+        'narrowed',
+        `${required ? 'Required' : 'Optional'} property ${childPath} was added`,
+        this.direction === 'input' && required
+      );
+    }
+
+    for (const key of Object.keys(fromProps)) {
+      if (key in toProps) {
+        continue;
+      }
+      const childPath = `${path}/${escapeJsonPointer(key)}`;
+      // Output callers lose a field; input callers only break if the
+      // property is now rejected rather than ignored
+      this.add(
+        childPath,
+        'property-removed',
+        'widened',
+        `Property ${childPath} was removed`,
+        this.direction === 'output' || closed
+      );
+    }
+
+    for (const key of toRequired) {
+      if (!fromRequired.has(key) && key in fromProps) {
+        const childPath = `${path}/${escapeJsonPointer(key)}`;
+        this.add(
+          childPath,
+          'required-added',
+          'narrowed',
+          `Property ${childPath} is now required`
+        );
+      }
+    }
+    for (const key of fromRequired) {
+      if (!toRequired.has(key) && key in toProps) {
+        const childPath = `${path}/${escapeJsonPointer(key)}`;
+        this.add(
+          childPath,
+          'required-removed',
+          'widened',
+          `Property ${childPath} is no longer required`
+        );
+      }
+    }
+
+    const wasClosed = before.additionalProperties === false;
+    if (wasClosed !== closed) {
+      this.add(
+        path,
+        'additional-properties-changed',
+        closed ? 'narrowed' : 'widened',
+        closed
+          ? `${label(path)} no longer allows additional properties`
+          : `${label(path)} now allows additional properties`
+      );
+    }
+  }
+}
+
+/**
+ * Compare two versions of one schema. A missing schema accepts any value,
+ * so adding a schema where there was none narrows it and removing one
+ * widens it.
+ */
+export function compareSchemas(
+  before: Schema,
+  after: Schema,
+  direction: SchemaDirection
+): SchemaChange[] {
+  if (!before && after) {
+    return [
+      {
+        schema: direction,
+        path: '',
+        kind: 'schema-added',
+        effect: 'narrowed',
+        breaking: isBreaking('narrowed', direction),
+        message: `An ${direction} schema was added`,
+      },
+    ];
+  }
+  if (before && !after) {
+    return [
+      {
+        schema: direction,
+        path: '',
+        kind: 'schema-removed',
+        effect: 'widened',
+        breaking: isBreaking('widened', direction),
+        message: `The ${direction} schema was removed`,
+      },
+    ];
+  }
+  const comparer = new SchemaComparer(direction);
+  comparer.compare(before ?? {}, after ?? {}, '');
+  return comparer.changes;
+}
+
+/**
+ * Compare an endpoint's current schemas with a proposed update. Schemas the
+ * update leaves null or undefined are unchanged, like its other fields.
+ */
+export function checkSchemaCompatibility(
+  endpoint: Pick<Endpoint, 'input_schema' | 'output_schema'>,
+  update: Pick<EndpointUpdateRequest, 'input_schema' | 'output_schema'>
+): SchemaCompatibilityReport {
+  const changes = [
+    ...(update.input_schema != null
+      ? compareSchemas(endpoint.input_schema, update.input_schema, 'input')
+      : []),
+    ...(update.output_schema != null
+      ? compareSchemas(endpoint.output_schema, update.output_schema, 'output')
+      : []),
+  ];
+  const breakingChanges = changes.filter(change => change.breaking);
+  return {
+    compatible: breakingChanges.length === 0,
+    changes,
+    breakingChanges,
+  };
+}
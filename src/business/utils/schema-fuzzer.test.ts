@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+import { generateFuzzCases, runFuzzCases } from './schema-fuzzer';
+import { validateJsonSchema } from './json-schema-validator';
+
+const schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', minLength: 1, maxLength: 10 },
+    count: { type: 'integer', minimum: 1, maximum: 5 },
+    tone: { type: 'string', enum: ['formal', 'casual'] },
+  },
+  required: ['text'],
+};
+
+describe('generateFuzzCases', () => {
+  it('should derive boundary and invalid inputs from the schema', () => {
+    const cases = generateFuzzCases(schema);
+    const byId = new Map(cases.map(c => [c.id, c]));
+
+    expect(byId.get('missing_required:/text')?.expectValid).toBe(false);
+    expect(byId.get('below_min_length:/text')?.input).toMatchObject({
+      text: '',
+    });
+    expect(byId.get('at_max_length:/text')?.expectValid).toBe(true);
+    expect(byId.get('above_max_length:/text')?.expectValid).toBe(false);
+    expect(byId.get('above_maximum:/count')?.input).toMatchObject({
+      count: 6,
+    });
+    expect(byId.get('not_in_enum:/tone')?.expectValid).toBe(false);
+    expect(byId.get('wrong_type:/')?.expectValid).toBe(false);
+    for (const fuzzCase of cases) {
+      expect(fuzzCase.expectValid).toBe(
+        validateJsonSchema(fuzzCase.input, schema).valid
+      );
+    }
+  });
+});
+
+describe('runFuzzCases', () => {
+  it('should flag invalid inputs the server accepted', async () => {
+    const cases = generateFuzzCases(schema);
+    // A server that only checks for the presence of "text"
+    const report = await runFuzzCases(async input => {
+      const ok = typeof input === 'object' && input !== null && 'text' in input;
+      return {
+        success: ok,
+        error: ok ? undefined : 'text is required',
+        timestamp: new Date().toISOString(),
+      };
+    }, cases);
+
+    expect(report.total).toBe(cases.length);
+    expect(report.acceptedInvalid.map(r => r.fuzzCase.id)).toContain(
+      'above_maximum:/count'
+    );
+    expect(report.acceptedInvalid.map(r => r.fuzzCase.id)).not.toContain(
+      'missing_required:/text'
+    );
+  });
+});
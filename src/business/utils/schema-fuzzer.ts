@@ -0,0 +1,339 @@
+/**
+ * Schema fuzzer
+ * Derive boundary and invalid inputs from an input schema and check that an
+ * endpoint enforces its contract
+ */
+
+import type { BaseResponse, JsonSchema } from '@sudobility/shapeshyft_types';
+import {
+  escapeJsonPointer,
+  getJsonType,
+  validateJsonSchema,
+} from './json-schema-validator';
+import { generateSampleValue } from './sample-input';
+
+/**
+ * Kind of mutation applied to the baseline input
+ */
+export type FuzzCategory =
+  | 'missing_required'
+  | 'wrong_type'
+  | 'below_min_length'
+  | 'at_min_length'
+  | 'above_max_length'
+  | 'at_max_length'
+  | 'below_minimum'
+  | 'at_minimum'
+  | 'above_maximum'
+  | 'at_maximum'
+  | 'not_in_enum'
+  | 'empty_array'
+  | 'deep_nesting';
+
+/**
+ * A generated fuzz input
+ */
+export interface FuzzCase {
+  id: string;
+  category: FuzzCategory;
+  /** JSON Pointer of the mutated value */
+  path: string;
+  description: string;
+  input: unknown;
+  /** Whether the input satisfies the schema, i.e. should be accepted */
+  expectValid: boolean;
+}
+
+/**
+ * Options for generateFuzzCases
+ */
+export interface FuzzOptions {
+  /** Valid input to mutate (default: generated from the schema) */
+  baseline?: unknown;
+  /** Maximum number of cases to return */
+  maxCases?: number;
+  /** Depth of the nested object used for deep_nesting (default: 32) */
+  nestingDepth?: number;
+}
+
+/**
+ * Outcome of sending one fuzz case
+ */
+export interface FuzzCaseResult {
+  fuzzCase: FuzzCase;
+  /** Whether the server accepted the request */
+  accepted: boolean;
+  /** Accepted when valid, rejected when invalid */
+  handledCorrectly: boolean;
+  error: string | null;
+}
+
+/**
+ * Fuzz run summary
+ */
+export interface FuzzReport {
+  total: number;
+  handledCorrectly: number;
+  /** Invalid inputs the server accepted */
+  acceptedInvalid: FuzzCaseResult[];
+  /** Valid boundary inputs the server rejected */
+  rejectedValid: FuzzCaseResult[];
+  results: FuzzCaseResult[];
+  cancelled: boolean;
+}
+
+/**
+ * Immutably replace (or delete, when value is undefined) a nested value
+ */
+function setIn(target: unknown, path: string[], value: unknown): unknown {
+  if (path.length === 0) {
+    return value;
+  }
+  const [head, ...rest] = path;
+  if (Array.isArray(target)) {
+    const copy = [...target];
+    copy[Number(head)] = setIn(copy[Number(head)], rest, value);
+    return copy;
+  }
+  const copy = { ...((target ?? {}) as Record<string, unknown>) };
+  if (rest.length === 0 && value === undefined) {
+    delete copy[head];
+  } else {
+    copy[head] = setIn(copy[head], rest, value);
+  }
+  return copy;
+}
+
+/**
+ * A value of a different JSON type than the schema expects
+ */
+function wrongTypeValue(type: string): unknown {
+  switch (type) {
+    case 'string':
+      return 12345;
+    case 'number':
+    case 'integer':
+      return 'not a number';
+    case 'boolean':
+      return 'true';
+    case 'array':
+      return { not: 'an array' };
+    case 'object':
+      return 'not an object';
+    default:
+      return { unexpected: true };
+  }
+}
+
+/**
+ * A nested object of the given depth
+ */
+function nestedObject(depth: number): Record<string, unknown> {
+  let value: Record<string, unknown> = { leaf: true };
+  for (let i = 0; i < depth; i++) {
+    value = { nested: value };
+  }
+  return value;
+}
+
+/**
+ * Generate fuzz cases for an input schema
+ */
+export function generateFuzzCases(
+  schema: JsonSchema,
+  options: FuzzOptions = {}
+): FuzzCase[] {
+  const baseline =
+    options.baseline !== undefined
+      ? options.baseline
+      : generateSampleValue(schema);
+  const depth = options.nestingDepth ?? 32;
+  const cases: FuzzCase[] = [];
+
+  const add = (
+    category: FuzzCategory,
+    path: string[],
+    description: string,
+    input: unknown
+  ) => {
+    const pointer = path
+      .map(escapeJsonPointer)
+      .map(t => `/${t}`)
+      .join('');
+    cases.push({
+      id: `${category}:${pointer || '/'}`,
+      category,
+      path: pointer,
+      description,
+      input,
+      expectValid: validateJsonSchema(input, schema).valid,
+    });
+  };
+  const mutate = (path: string[], value: unknown) =>
+    setIn(baseline, path, value);
+
+  const visit = (node: JsonSchema, path: string[]) => {
+    const label = path.length > 0 ? path.join('.') : 'input';
+    const type = typeof node.type === 'string' ? node.type : undefined;
+
+    if (type) {
+      const wrong = wrongTypeValue(type);
+      add(
+        'wrong_type',
+        path,
+        `${label} as ${getJsonType(wrong)} instead of ${type}`,
+        mutate(path, wrong)
+      );
+    }
+
+    if (Array.isArray(node.enum) && node.enum.length > 0) {
+      const outside =
+        typeof node.enum[0] === 'number'
+          ? Math.max(...(node.enum as number[])) + 1
+          : '__not_in_enum__';
+      add(
+        'not_in_enum',
+        path,
+        `${label} outside its enum`,
+        mutate(path, outside)
+      );
+    }
+
+    if (type === 'string') {
+      if (node.minLength !== undefined && node.minLength > 0) {
+        add(
+          'below_min_length',
+          path,
+          `${label} with ${node.minLength - 1} characters`,
+          mutate(path, 'a'.repeat(node.minLength - 1))
+        );
+        add(
+          'at_min_length',
+          path,
+          `${label} with exactly ${node.minLength} characters`,
+          mutate(path, 'a'.repeat(node.minLength))
+        );
+      }
+      if (node.maxLength !== undefined) {
+        add(
+          'above_max_length',
+          path,
+          `${label} with ${node.maxLength + 1} characters`,
+          mutate(path, 'a'.repeat(node.maxLength + 1))
+        );
+        add(
+          'at_max_length',
+          path,
+          `${label} with exactly ${node.maxLength} characters`,
+          mutate(path, 'a'.repeat(node.maxLength))
+        );
+      }
+    }
+
+    if (type === 'number' || type === 'integer') {
+      const step = type === 'integer' ? 1 : 0.5;
+      if (node.minimum !== undefined) {
+        add(
+          'below_minimum',
+          path,
+          `${label} = ${node.minimum - step}`,
+          mutate(path, node.minimum - step)
+        );
+        add(
+          'at_minimum',
+          path,
+          `${label} = ${node.minimum}`,
+          mutate(path, node.minimum)
+        );
+      }
+      if (node.maximum !== undefined) {
+        add(
+          'above_maximum',
+          path,
+          `${label} = ${node.maximum + step}`,
+          mutate(path, node.maximum + step)
+        );
+        add(
+          'at_maximum',
+          path,
+          `${label} = ${node.maximum}`,
+          mutate(path, node.maximum)
+        );
+      }
+    }
+
+    if (type === 'array') {
+      add('empty_array', path, `${label} as an empty array`, mutate(path, []));
+      if (node.items) {
+        visit(node.items, [...path, '0']);
+      }
+    }
+
+    if (type === 'object' || node.properties) {
+      add(
+        'deep_nesting',
+        [...path, '__fuzz_nested'],
+        `${label} with a ${depth}-level nested object`,
+        mutate([...path, '__fuzz_nested'], nestedObject(depth))
+      );
+      for (const key of node.required ?? []) {
+        add(
+          'missing_required',
+          [...path, key],
+          `${label} without required "${key}"`,
+          mutate([...path, key], undefined)
+        );
+      }
+      for (const [key, propSchema] of Object.entries(node.properties ?? {})) {
+        visit(propSchema, [...path, key]);
+      }
+    }
+  };
+
+  visit(schema, []);
+  return options.maxCases !== undefined
+    ? cases.slice(0, options.maxCases)
+    : cases;
+}
+
+/**
+ * Send fuzz cases one at a time and check each was accepted or rejected as
+ * its schema validity demands
+ */
+export async function runFuzzCases(
+  executor: (input: unknown) => Promise<BaseResponse<unknown>>,
+  cases: FuzzCase[],
+  signal?: AbortSignal
+): Promise<FuzzReport> {
+  const results: FuzzCaseResult[] = [];
+
+  for (const fuzzCase of cases) {
+    if (signal?.aborted) {
+      break;
+    }
+    let accepted = false;
+    let error: string | null = null;
+    try {
+      const response = await executor(fuzzCase.input);
+      accepted = response.success;
+      error = response.error ?? null;
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Request failed';
+    }
+    results.push({
+      fuzzCase,
+      accepted,
+      handledCorrectly: accepted === fuzzCase.expectValid,
+      error,
+    });
+  }
+
+  return {
+    total: results.length,
+    handledCorrectly: results.filter(r => r.handledCorrectly).length,
+    acceptedInvalid: results.filter(r => r.accepted && !r.fuzzCase.expectValid),
+    rejectedValid: results.filter(r => !r.accepted && r.fuzzCase.expectValid),
+    results,
+    cancelled: signal?.aborted ?? false,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { inferSchema } from './schema-inference';
+import { validateJsonSchema } from './json-schema-validator';
+
+describe('inferSchema', () => {
+  it('should merge types and compute required across examples', () => {
+    const examples = [
+      {
+        sentiment: 'positive',
+        score: 1,
+        tags: ['a'],
+        createdAt: '2024-05-01T10:00:00Z',
+      },
+      { sentiment: 'negative', score: 0.25, tags: [], note: null },
+      { sentiment: 'positive', score: 0, tags: ['b', 'c'], note: 'hi' },
+    ];
+    const schema = inferSchema(examples);
+
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        sentiment: { type: 'string', enum: ['negative', 'positive'] },
+        score: { type: 'number' },
+        tags: { type: 'array', items: { type: 'string' } },
+        createdAt: { type: 'string', format: 'date-time' },
+        note: { anyOf: [{ type: 'null' }, { type: 'string' }] },
+      },
+      required: ['sentiment', 'score', 'tags'],
+    });
+    for (const example of examples) {
+      expect(validateJsonSchema(example, schema).valid).toBe(true);
+    }
+  });
+
+  it('should unify array items of objects', () => {
+    const schema = inferSchema([
+      {
+        entities: [
+          { text: 'Acme', type: 'organization' },
+          { text: 'Berlin', type: 'location', confidence: 0.9 },
+        ],
+      },
+    ]);
+    expect(schema.properties?.entities.items).toEqual({
+      type: 'object',
+      properties: {
+        text: { type: 'string' },
+        type: { type: 'string' },
+        confidence: { type: 'number' },
+      },
+      required: ['text', 'type'],
+    });
+  });
+});
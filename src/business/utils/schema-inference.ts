@@ -0,0 +1,183 @@
+/**
+ * Schema inference
+ * Derive a starting JSON Schema from example documents
+ */
+
+import type { JsonSchema } from '@sudobility/shapeshyft_types';
+import { getJsonType, validateJsonSchema } from './json-schema-validator';
+
+/**
+ * Options for inferSchema
+ */
+export interface SchemaInferenceOptions {
+  /**
+   * Suggest an enum for strings with at most this many distinct values
+   * (default: 5, 0 disables)
+   */
+  maxEnumValues?: number;
+  /** String observations required before an enum is suggested (default: 3) */
+  minEnumSamples?: number;
+  /** Detect date, date-time, email, uri and uuid formats (default: true) */
+  detectFormats?: boolean;
+}
+
+const DETECTED_FORMATS = ['date-time', 'date', 'uuid', 'email', 'uri'];
+
+/**
+ * Observations collected for one position in the documents
+ */
+interface Observed {
+  /** Count per JSON type */
+  types: Map<string, number>;
+  strings: Map<string, number>;
+  objects: number;
+  properties: Map<string, Observed>;
+  items: Observed | null;
+}
+
+function createObserved(): Observed {
+  return {
+    types: new Map(),
+    strings: new Map(),
+    objects: 0,
+    properties: new Map(),
+    items: null,
+  };
+}
+
+function observe(node: Observed, value: unknown): void {
+  const type = getJsonType(value);
+  node.types.set(type, (node.types.get(type) ?? 0) + 1);
+
+  if (typeof value === 'string') {
+    node.strings.set(value, (node.strings.get(value) ?? 0) + 1);
+  } else if (Array.isArray(value)) {
+    node.items ??= createObserved();
+    for (const item of value) {
+      observe(node.items, item);
+    }
+  } else if (type === 'object') {
+    node.objects++;
+    for (const [key, item] of Object.entries(value as object)) {
+      let property = node.properties.get(key);
+      if (!property) {
+        property = createObserved();
+        node.properties.set(key, property);
+      }
+      observe(property, item);
+    }
+  }
+}
+
+function observations(node: Observed): number {
+  let total = 0;
+  for (const count of node.types.values()) {
+    total += count;
+  }
+  return total;
+}
+
+function stringSchema(
+  node: Observed,
+  options: Required<SchemaInferenceOptions>
+): JsonSchema {
+  const schema: JsonSchema = { type: 'string' };
+  const values = [...node.strings.keys()];
+
+  if (options.detectFormats && values.length > 0) {
+    const format = DETECTED_FORMATS.find(candidate =>
+      values.every(
+        value =>
+          validateJsonSchema(value, { type: 'string', format: candidate }).valid
+      )
+    );
+    if (format) {
+      schema.format = format;
+      return schema;
+    }
+  }
+
+  const total = node.types.get('string') ?? 0;
+  if (
+    options.maxEnumValues > 0 &&
+    values.length <= options.maxEnumValues &&
+    total >= options.minEnumSamples &&
+    values.length < total
+  ) {
+    schema.enum = values.sort();
+  }
+  return schema;
+}
+
+function schemaForType(
+  type: string,
+  node: Observed,
+  options: Required<SchemaInferenceOptions>
+): JsonSchema {
+  switch (type) {
+    case 'string':
+      return stringSchema(node, options);
+    case 'array':
+      return node.items && observations(node.items) > 0
+        ? { type: 'array', items: build(node.items, options) }
+        : { type: 'array' };
+    case 'object': {
+      const properties: Record<string, JsonSchema> = {};
+      const required: string[] = [];
+      for (const [key, property] of node.properties) {
+        properties[key] = build(property, options);
+        // Present in every example object (null values count as present)
+        if (observations(property) === node.objects) {
+          required.push(key);
+        }
+      }
+      const schema: JsonSchema = { type: 'object', properties };
+      if (required.length > 0) {
+        schema.required = required;
+      }
+      return schema;
+    }
+    default:
+      return { type };
+  }
+}
+
+function build(
+  node: Observed,
+  options: Required<SchemaInferenceOptions>
+): JsonSchema {
+  const types = [...node.types.keys()];
+  // Integers widen to number when both were seen
+  const merged = types.includes('number')
+    ? types.filter(type => type !== 'integer')
+    : types;
+  if (merged.length === 0) {
+    return {};
+  }
+  if (merged.length === 1) {
+    return schemaForType(merged[0], node, options);
+  }
+  return { anyOf: merged.map(type => schemaForType(type, node, options)) };
+}
+
+/**
+ * Infer a JSON Schema from one or more example documents. Types are merged
+ * across examples (conflicts become anyOf), `required` lists properties
+ * present in every example, array items are unified into one schema, and
+ * repeated low-cardinality strings become enum suggestions.
+ */
+export function inferSchema(
+  examples: unknown[],
+  options: SchemaInferenceOptions = {}
+): JsonSchema {
+  const resolved: Required<SchemaInferenceOptions> = {
+    maxEnumValues: options.maxEnumValues ?? 5,
+    minEnumSamples: options.minEnumSamples ?? 3,
+    detectFormats: options.detectFormats ?? true,
+  };
+  const root = createObserved();
+  for (const example of examples) {
+    observe(root, example);
+  }
+  return build(root, resolved);
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { UsageByDate } from '@sudobility/shapeshyft_types';
+import { forecastSpend, predictExhaustion } from './spend-forecast';
+
+function day(date: string, cents: number): UsageByDate {
+  return {
+    date,
+    total_requests: 1,
+    successful_requests: 1,
+    failed_requests: 0,
+    total_tokens_input: 0,
+    total_tokens_output: 0,
+    total_estimated_cost_cents: cents,
+    average_latency_ms: 0,
+  };
+}
+
+// 2024-03-11 00:00 UTC; period ends 2024-03-21 (10 days left)
+const now = Date.UTC(2024, 2, 11);
+const periodEnd = Date.UTC(2024, 2, 21);
+
+describe('forecastSpend', () => {
+  it('should extrapolate a linear trend', () => {
+    // 10, 20, ..., 100 over 2024-03-01..10
+    const history = Array.from({ length: 10 }, (_, i) =>
+      day(`2024-03-${String(i + 1).padStart(2, '0')}`, (i + 1) * 10)
+    );
+    const forecast = forecastSpend(history, {
+      now,
+      periodEnd,
+      spentCents: 550,
+      model: 'linear',
+    });
+    // Days 11..20 average 155 cents
+    expect(forecast.dailyRateCents).toBeCloseTo(155);
+    expect(forecast.projectedCents).toBeCloseTo(550 + 1550);
+    expect(forecast.lowerCents).toBeCloseTo(forecast.projectedCents);
+    expect(forecast.sampleDays).toBe(10);
+  });
+
+  it('should smooth noisy history with an interval around the point', () => {
+    const history = [
+      day('2024-03-07', 100),
+      day('2024-03-08', 300),
+      day('2024-03-10', 200),
+      day('2024-03-11', 5000),
+    ];
+    const forecast = forecastSpend(history, {
+      now,
+      periodEnd,
+      spentCents: 0,
+    });
+    // The partial current day is ignored and the gap on 03-09 counts as zero
+    expect(forecast.sampleDays).toBe(4);
+    expect(forecast.dailyRateCents).toBeGreaterThan(0);
+    expect(forecast.dailyRateCents).toBeLessThan(300);
+    expect(forecast.lowerCents).toBeLessThan(forecast.projectedCents);
+    expect(forecast.upperCents).toBeGreaterThan(forecast.projectedCents);
+  });
+
+  it('should return spend so far without history', () => {
+    expect(
+      forecastSpend([], { now, periodEnd, spentCents: 42 }).projectedCents
+    ).toBe(42);
+  });
+});
+
+describe('predictExhaustion', () => {
+  it('should find when the limit is reached within the period', () => {
+    const rate = { dailyRateCents: 100 };
+    expect(predictExhaustion(1000, 500, rate, now, periodEnd)).toBe(
+      now + 5 * 86_400_000
+    );
+    expect(predictExhaustion(5000, 500, rate, now, periodEnd)).toBeNull();
+    expect(predictExhaustion(400, 500, rate, now, periodEnd)).toBe(now);
+  });
+});
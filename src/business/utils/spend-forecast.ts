@@ -0,0 +1,197 @@
+/**
+ * Spend forecasting
+ * Project end-of-period spend from daily usage history
+ */
+
+import type { UsageByDate } from '@sudobility/shapeshyft_types';
+
+const DAY_MS = 86_400_000;
+
+export type ForecastModel = 'linear' | 'ewma';
+
+/**
+ * Options for forecastSpend
+ */
+export interface SpendForecastOptions {
+  /** Forecast time (default: now) */
+  now?: number;
+  /** End of the period being forecast (exclusive, ms since epoch) */
+  periodEnd: number;
+  /** Spend already counted in the period */
+  spentCents: number;
+  /** Model used (default: 'ewma') */
+  model?: ForecastModel;
+  /** EWMA smoothing factor between 0 and 1 (default: 0.3) */
+  alpha?: number;
+  /** Interval width in standard deviations (default: 1.96, about 95%) */
+  z?: number;
+  /**
+   * Current calendar day, YYYY-MM-DD; history from this day on is partial
+   * and ignored (default: the UTC date of now)
+   */
+  today?: string;
+}
+
+/**
+ * Projected spend for the rest of a period
+ */
+export interface SpendForecast {
+  model: ForecastModel;
+  /** Complete days of history the model was fitted on */
+  sampleDays: number;
+  /** Expected spend per day over the rest of the period */
+  dailyRateCents: number;
+  /** Expected total spend at the end of the period */
+  projectedCents: number;
+  lowerCents: number;
+  upperCents: number;
+}
+
+/**
+ * Daily costs from the first day of history to the day before `today`,
+ * with days missing from the history counted as zero
+ */
+function dailySeries(history: UsageByDate[], today: string): number[] {
+  const totals = new Map<string, number>();
+  for (const row of history) {
+    const date = row.date.slice(0, 10);
+    if (date < today) {
+      totals.set(
+        date,
+        (totals.get(date) ?? 0) + row.total_estimated_cost_cents
+      );
+    }
+  }
+  if (totals.size === 0) {
+    return [];
+  }
+  const first = Date.parse(`${[...totals.keys()].sort()[0]}T00:00:00Z`);
+  const last = Date.parse(`${today}T00:00:00Z`);
+  const series: number[] = [];
+  for (let day = first; day < last; day += DAY_MS) {
+    series.push(totals.get(new Date(day).toISOString().slice(0, 10)) ?? 0);
+  }
+  return series;
+}
+
+interface RateEstimate {
+  /** Expected spend over the remaining days */
+  total: number;
+  /** Standard deviation of a single day's spend */
+  dailyStdDev: number;
+}
+
+/**
+ * Least-squares line through the series, summed over the coming days
+ */
+function linearEstimate(series: number[], remainingDays: number): RateEstimate {
+  const n = series.length;
+  const meanX = (n - 1) / 2;
+  const meanY = series.reduce((sum, y) => sum + y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  for (let x = 0; x < n; x++) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (series[x] - meanY);
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = meanY - slope * meanX;
+
+  let squared = 0;
+  for (let x = 0; x < n; x++) {
+    squared += (series[x] - (intercept + slope * x)) ** 2;
+  }
+  const dailyStdDev = n > 2 ? Math.sqrt(squared / (n - 2)) : 0;
+
+  // The rest of the period covers days n, n + 1, ...; use the line's value
+  // at their midpoint, never below zero
+  const midpoint = n + (remainingDays - 1) / 2;
+  const rate = Math.max(0, intercept + slope * midpoint);
+  return { total: rate * remainingDays, dailyStdDev };
+}
+
+/**
+ * Exponentially weighted level of the series, held flat over the coming
+ * days
+ */
+function ewmaEstimate(
+  series: number[],
+  remainingDays: number,
+  alpha: number
+): RateEstimate {
+  let level = series[0];
+  let variance = 0;
+  for (const value of series.slice(1)) {
+    const error = value - level;
+    variance = (1 - alpha) * (variance + alpha * error ** 2);
+    level += alpha * error;
+  }
+  return {
+    total: Math.max(0, level) * remainingDays,
+    dailyStdDev: Math.sqrt(variance),
+  };
+}
+
+/**
+ * Forecast total spend at the end of a period from daily history. The
+ * interval treats days as independent, so it widens with the square root of
+ * the days remaining.
+ */
+export function forecastSpend(
+  history: UsageByDate[],
+  options: SpendForecastOptions
+): SpendForecast {
+  const now = options.now ?? Date.now();
+  const model = options.model ?? 'ewma';
+  const z = options.z ?? 1.96;
+  const today = options.today ?? new Date(now).toISOString().slice(0, 10);
+  const remainingDays = Math.max(0, (options.periodEnd - now) / DAY_MS);
+  const series = dailySeries(history, today);
+
+  if (series.length === 0 || remainingDays === 0) {
+    return {
+      model,
+      sampleDays: series.length,
+      dailyRateCents: 0,
+      projectedCents: options.spentCents,
+      lowerCents: options.spentCents,
+      upperCents: options.spentCents,
+    };
+  }
+
+  const estimate =
+    model === 'linear'
+      ? linearEstimate(series, remainingDays)
+      : ewmaEstimate(series, remainingDays, options.alpha ?? 0.3);
+  const margin = z * estimate.dailyStdDev * Math.sqrt(remainingDays);
+  return {
+    model,
+    sampleDays: series.length,
+    dailyRateCents: estimate.total / remainingDays,
+    projectedCents: options.spentCents + estimate.total,
+    lowerCents: options.spentCents + Math.max(0, estimate.total - margin),
+    upperCents: options.spentCents + estimate.total + margin,
+  };
+}
+
+/**
+ * When spend reaches a limit at the forecast's daily rate: now if it already
+ * has, null if it will not before the period ends
+ */
+export function predictExhaustion(
+  limitCents: number,
+  spentCents: number,
+  forecast: Pick<SpendForecast, 'dailyRateCents'>,
+  now: number,
+  periodEnd: number
+): number | null {
+  if (spentCents >= limitCents) {
+    return now;
+  }
+  if (forecast.dailyRateCents <= 0) {
+    return null;
+  }
+  const at =
+    now + ((limitCents - spentCents) / forecast.dailyRateCents) * DAY_MS;
+  return at < periodEnd ? at : null;
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { TestResult } from '../hooks/useEndpointTester';
+import { evaluateAssertion, isTestPassing } from './test-assertions';
+
+const result: TestResult = {
+  id: 'test-1',
+  endpointId: 'ep-1',
+  endpointName: 'analyze',
+  input: { text: 'great' },
+  output: {
+    output: {
+      sentiment: 'positive',
+      score: 0.8,
+      emotions: [
+        { emotion: 'joy', intensity: 0.9 },
+        { emotion: 'trust', intensity: 0.4 },
+      ],
+    },
+    usage: { tokens_input: 100, tokens_output: 20 },
+  },
+  success: true,
+  status: 'success',
+  error: null,
+  timestamp: 0,
+  latencyMs: 350,
+  tokensInput: 100,
+  tokensOutput: 20,
+  outputValidation: null,
+  attempts: [],
+  estimatedCostCents: null,
+};
+
+describe('evaluateAssertion', () => {
+  it('should check fields of the model output', () => {
+    expect(
+      evaluateAssertion(result, {
+        type: 'fieldEquals',
+        field: 'sentiment',
+        value: 'positive',
+      }).passed
+    ).toBe(true);
+    expect(
+      evaluateAssertion(result, {
+        type: 'fieldInEnum',
+        field: 'sentiment',
+        values: ['negative', 'neutral'],
+      }).passed
+    ).toBe(false);
+    expect(
+      evaluateAssertion(result, {
+        type: 'numberInRange',
+        field: 'emotions.1.intensity',
+        min: 0,
+        max: 0.5,
+      }).passed
+    ).toBe(true);
+    expect(
+      evaluateAssertion(result, {
+        type: 'fieldMatches',
+        field: 'sentiment',
+        pattern: '^pos',
+      }).passed
+    ).toBe(true);
+  });
+
+  it('should evaluate JSONPath expressions', () => {
+    expect(
+      evaluateAssertion(result, {
+        type: 'jsonPathEquals',
+        path: '$.emotions[0].emotion',
+        value: 'joy',
+      }).passed
+    ).toBe(true);
+    expect(
+      evaluateAssertion(result, {
+        type: 'jsonPathEquals',
+        path: '$..emotion',
+        value: ['joy', 'trust'],
+      }).passed
+    ).toBe(true);
+    const missing = evaluateAssertion(result, {
+      type: 'jsonPathEquals',
+      path: '$.missing',
+      value: null,
+    });
+    expect(missing.passed).toBe(false);
+    expect(missing.message).toContain('no match');
+  });
+
+  it('should check latency and token limits', () => {
+    expect(
+      evaluateAssertion(result, { type: 'maxLatency', maxMs: 300 }).passed
+    ).toBe(false);
+    expect(
+      evaluateAssertion(result, { type: 'maxTokens', max: 120 }).passed
+    ).toBe(true);
+    expect(
+      evaluateAssertion(result, { type: 'maxTokens', max: 10, kind: 'output' })
+        .passed
+    ).toBe(false);
+  });
+});
+
+describe('isTestPassing', () => {
+  it('should fail runs whose output violates the schema', () => {
+    const assertions = [
+      evaluateAssertion(result, { type: 'maxTokens', max: 120 }),
+    ];
+    expect(isTestPassing(result, assertions)).toBe(true);
+    const invalid: TestResult = {
+      ...result,
+      outputValidation: {
+        valid: false,
+        errors: ['/score: expected number'],
+        issues: [],
+        missingRequired: [],
+      },
+    };
+    expect(isTestPassing(invalid, assertions)).toBe(false);
+    expect(isTestPassing({ ...result, success: false })).toBe(false);
+  });
+});
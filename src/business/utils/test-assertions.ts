@@ -0,0 +1,209 @@
+/**
+ * Test assertions
+ * Expectations for saved endpoint test cases and their evaluation
+ */
+
+import type { TestResult } from '../hooks/useEndpointTester';
+import { isJsonEqual } from './json-schema-validator';
+import { queryJsonPath } from './json-path';
+
+/**
+ * Expectation on a single test run. Field assertions address the model
+ * output with a dot path (e.g. `emotions.0.intensity`).
+ */
+export type TestAssertion =
+  | { type: 'fieldEquals'; field: string; value: unknown }
+  | { type: 'fieldInEnum'; field: string; values: unknown[] }
+  | { type: 'fieldMatches'; field: string; pattern: string; flags?: string }
+  | { type: 'jsonPathEquals'; path: string; value: unknown }
+  | { type: 'numberInRange'; field: string; min?: number; max?: number }
+  | { type: 'maxLatency'; maxMs: number }
+  | {
+      type: 'maxTokens';
+      max: number;
+      /** Which token count to check (default: 'total') */
+      kind?: 'input' | 'output' | 'total';
+    };
+
+/**
+ * Outcome of a single assertion
+ */
+export interface AssertionResult {
+  assertion: TestAssertion;
+  passed: boolean;
+  actual: unknown;
+  message: string;
+}
+
+/**
+ * Extract the model output from an execution response payload
+ */
+export function extractModelOutput(data: unknown): unknown {
+  if (data && typeof data === 'object' && 'output' in data) {
+    return (data as { output: unknown }).output;
+  }
+  return data;
+}
+
+/**
+ * Read a dot-path field (e.g. `items.0.name`) from a value
+ */
+export function getFieldValue(value: unknown, field: string): unknown {
+  if (field === '') {
+    return value;
+  }
+  let current: unknown = value;
+  for (const key of field.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Format a value for an assertion message
+ */
+function show(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+/**
+ * Evaluate one assertion against a test result
+ */
+export function evaluateAssertion(
+  result: TestResult,
+  assertion: TestAssertion
+): AssertionResult {
+  const output = extractModelOutput(result.output);
+  const outcome = (passed: boolean, actual: unknown, message: string) => ({
+    assertion,
+    passed,
+    actual,
+    message,
+  });
+
+  switch (assertion.type) {
+    case 'fieldEquals': {
+      const actual = getFieldValue(output, assertion.field);
+      return outcome(
+        isJsonEqual(actual, assertion.value),
+        actual,
+        `${assertion.field}: expected ${show(assertion.value)}, got ${show(actual)}`
+      );
+    }
+
+    case 'fieldInEnum': {
+      const actual = getFieldValue(output, assertion.field);
+      return outcome(
+        assertion.values.some(v => isJsonEqual(v, actual)),
+        actual,
+        `${assertion.field}: expected one of [${assertion.values.map(show).join(', ')}], got ${show(actual)}`
+      );
+    }
+
+    case 'fieldMatches': {
+      const actual = getFieldValue(output, assertion.field);
+      let passed = false;
+      try {
+        passed =
+          typeof actual === 'string' &&
+          new RegExp(assertion.pattern, assertion.flags).test(actual);
+      } catch {
+        return outcome(false, actual, `invalid pattern "${assertion.pattern}"`);
+      }
+      return outcome(
+        passed,
+        actual,
+        `${assertion.field}: expected to match /${assertion.pattern}/${assertion.flags ?? ''}, got ${show(actual)}`
+      );
+    }
+
+    case 'jsonPathEquals': {
+      let matches: unknown[];
+      try {
+        matches = queryJsonPath(output, assertion.path);
+      } catch (err) {
+        return outcome(
+          false,
+          undefined,
+          err instanceof Error ? err.message : 'Invalid JSONPath'
+        );
+      }
+      // A single match is compared directly, several as an array
+      const actual = matches.length === 1 ? matches[0] : matches;
+      return outcome(
+        matches.length > 0 && isJsonEqual(actual, assertion.value),
+        actual,
+        `${assertion.path}: expected ${show(assertion.value)}, got ${matches.length > 0 ? show(actual) : 'no match'}`
+      );
+    }
+
+    case 'numberInRange': {
+      const actual = getFieldValue(output, assertion.field);
+      const passed =
+        typeof actual === 'number' &&
+        (assertion.min === undefined || actual >= assertion.min) &&
+        (assertion.max === undefined || actual <= assertion.max);
+      return outcome(
+        passed,
+        actual,
+        `${assertion.field}: expected number in [${assertion.min ?? '-∞'}, ${assertion.max ?? '∞'}], got ${show(actual)}`
+      );
+    }
+
+    case 'maxLatency': {
+      const actual = result.latencyMs;
+      return outcome(
+        actual !== null && actual !== undefined && actual <= assertion.maxMs,
+        actual,
+        `latency: expected <= ${assertion.maxMs}ms, got ${actual ?? 'unknown'}ms`
+      );
+    }
+
+    case 'maxTokens': {
+      const kind = assertion.kind ?? 'total';
+      const input = result.tokensInput;
+      const output = result.tokensOutput;
+      let actual: number | null = null;
+      if (kind === 'input') {
+        actual = input ?? null;
+      } else if (kind === 'output') {
+        actual = output ?? null;
+      } else if (input != null || output != null) {
+        actual = (input ?? 0) + (output ?? 0);
+      }
+      return outcome(
+        actual !== null && actual <= assertion.max,
+        actual,
+        `${kind} tokens: expected <= ${assertion.max}, got ${actual ?? 'unknown'}`
+      );
+    }
+  }
+}
+
+/**
+ * Evaluate all assertions against a test result
+ */
+export function evaluateAssertions(
+  result: TestResult,
+  assertions: TestAssertion[]
+): AssertionResult[] {
+  return assertions.map(assertion => evaluateAssertion(result, assertion));
+}
+
+/**
+ * Whether a run passed: the call succeeded, the output did not violate its
+ * schema and every assertion passed
+ */
+export function isTestPassing(
+  result: TestResult,
+  assertions: AssertionResult[] = []
+): boolean {
+  return (
+    result.success &&
+    result.outputValidation?.valid !== false &&
+    assertions.every(a => a.passed)
+  );
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { TestResult, TestSuiteReport } from '../hooks/useEndpointTester';
+import { buildTestReport, toCsvReport, toJUnitXml } from './test-report';
+
+const base: TestResult = {
+  id: 'run-1',
+  endpointId: 'ep-1',
+  endpointName: 'classify',
+  input: { text: 'Refund "please", now' },
+  output: { output: { category: 'billing' } },
+  success: true,
+  status: 'success',
+  error: null,
+  timestamp: Date.parse('2024-05-01T10:00:00Z'),
+  latencyMs: 1200,
+  tokensInput: 90,
+  tokensOutput: 10,
+  outputValidation: null,
+  attempts: [],
+  estimatedCostCents: null,
+};
+
+const failedCall: TestResult = {
+  ...base,
+  id: 'run-2',
+  success: false,
+  status: 'failed',
+  error: 'Upstream <timeout>',
+  timestamp: base.timestamp + 1000,
+  output: null,
+};
+
+const suite: TestSuiteReport = {
+  suiteId: 'suite-1',
+  suiteName: 'Billing',
+  endpointId: 'ep-1',
+  startedAt: base.timestamp,
+  finishedAt: base.timestamp + 2000,
+  passed: 0,
+  failed: 1,
+  total: 1,
+  cases: [
+    {
+      caseId: 'case-1',
+      caseName: 'refund goes to billing',
+      passed: false,
+      result: base,
+      assertions: [
+        {
+          assertion: { type: 'fieldEquals', field: 'category', value: 'sales' },
+          passed: false,
+          actual: 'billing',
+          message: 'category is "billing", expected "sales"',
+        },
+      ],
+    },
+  ],
+};
+
+describe('test reports', () => {
+  it('should build a stable JSON report without repeating suite results', () => {
+    const report = buildTestReport([base, failedCall], [suite]);
+    expect(report.generatedAt).toBe('2024-05-01T10:00:01.000Z');
+    expect(report.summary).toMatchObject({ total: 2, passed: 0, failed: 2 });
+    expect(report.entries[0]).toMatchObject({
+      suiteName: 'Billing',
+      caseName: 'refund goes to billing',
+      failedAssertions: ['category is "billing", expected "sales"'],
+    });
+    expect(buildTestReport([base, failedCall], [suite])).toEqual(report);
+  });
+
+  it('should escape CSV cells', () => {
+    const lines = toCsvReport([base]).split('\r\n');
+    expect(lines).toHaveLength(2);
+    expect(lines[1]).toContain('"{""text"":""Refund \\""please\\"", now""}"');
+  });
+
+  it('should emit JUnit failures and errors', () => {
+    const xml = toJUnitXml([failedCall], [suite]);
+    expect(xml).toContain('<testsuites name="shapeshyft" tests="2"');
+    expect(xml).toContain('<failure message="category is &quot;billing&quot;');
+    expect(xml).toContain('<error message="Upstream &lt;timeout&gt;"');
+    expect(xml).toContain('<property name="tokens_input" value="90"/>');
+  });
+
+  it('should fail suite and ad-hoc runs whose output violates the schema', () => {
+    const invalid: TestResult = {
+      ...base,
+      id: 'run-3',
+      outputValidation: {
+        valid: false,
+        errors: ['/category: expected one of billing, sales'],
+        issues: [],
+        missingRequired: [],
+      },
+    };
+    const passingCase = {
+      ...suite.cases[0],
+      passed: true,
+      result: invalid,
+      assertions: [],
+    };
+    const report = buildTestReport(
+      [invalid, { ...invalid, id: 'run-4' }],
+      [{ ...suite, cases: [passingCase] }]
+    );
+    expect(report.entries.map(e => e.passed)).toEqual([false, false]);
+    expect(report.entries[0].validationErrors).toHaveLength(1);
+  });
+
+  it('should strip control characters from JUnit XML', () => {
+    const xml = toJUnitXml([
+      { ...failedCall, error: 'bad\u0000\u001b byte\ttab' },
+    ]);
+    expect(xml).toContain('message="bad byte\ttab"');
+  });
+
+  it('should date an empty report now unless the caller passes a time', () => {
+    vi.useFakeTimers({ now: Date.parse('2024-06-01T12:00:00Z') });
+    try {
+      expect(buildTestReport([]).generatedAt).toBe('2024-06-01T12:00:00.000Z');
+      expect(toJUnitXml([])).toContain('timestamp="2024-06-01T12:00:00.000Z"');
+      expect(buildTestReport([], [], { generatedAt: 0 }).generatedAt).toBe(
+        '1970-01-01T00:00:00.000Z'
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
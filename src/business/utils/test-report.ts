@@ -0,0 +1,381 @@
+/**
+ * Test reports
+ * Serialize test results and suite runs to JUnit XML, CSV and JSON for CI
+ * dashboards. Everything here is pure and safe to run outside React.
+ */
+
+import type { Optional } from '@sudobility/shapeshyft_types';
+import type {
+  TestResult,
+  TestRunStatus,
+  TestSuiteReport,
+} from '../hooks/useEndpointTester';
+import { type AssertionResult, isTestPassing } from './test-assertions';
+
+/**
+ * Version of the JSON report format; bumped on breaking changes
+ */
+export const TEST_REPORT_VERSION = 1;
+
+/**
+ * One test run, flattened for reporting
+ */
+export interface TestReportEntry {
+  /** Suite the run belongs to, null for ad-hoc runs */
+  suiteId: Optional<string>;
+  suiteName: Optional<string>;
+  caseId: Optional<string>;
+  caseName: Optional<string>;
+  resultId: string;
+  endpointId: string;
+  endpointName: string;
+  status: TestRunStatus;
+  /** Call succeeded, output matched its schema and all assertions passed */
+  passed: boolean;
+  /** ISO 8601 timestamp of the run */
+  timestamp: string;
+  latencyMs: Optional<number>;
+  tokensInput: Optional<number>;
+  tokensOutput: Optional<number>;
+  estimatedCostCents: Optional<number>;
+  input: unknown;
+  output: unknown;
+  error: Optional<string>;
+  /** Output schema violations */
+  validationErrors: string[];
+  /** Messages of failed assertions */
+  failedAssertions: string[];
+}
+
+/**
+ * Stable JSON report
+ */
+export interface TestReport {
+  version: typeof TEST_REPORT_VERSION;
+  generatedAt: string;
+  summary: {
+    total: number;
+    passed: number;
+    failed: number;
+    latencyMsTotal: number;
+    tokensInput: number;
+    tokensOutput: number;
+  };
+  entries: TestReportEntry[];
+}
+
+/**
+ * Options shared by the serializers
+ */
+export interface TestReportOptions {
+  /**
+   * Report timestamp in ms (default: latest run in the report, or now when
+   * the report is empty)
+   */
+  generatedAt?: number;
+  /** Name of the top-level JUnit <testsuites> element */
+  name?: string;
+}
+
+function toEntry(
+  result: TestResult,
+  suite: Optional<TestSuiteReport>,
+  caseId: Optional<string>,
+  caseName: Optional<string>,
+  assertions: AssertionResult[]
+): TestReportEntry {
+  return {
+    suiteId: suite?.suiteId ?? null,
+    suiteName: suite?.suiteName ?? null,
+    caseId,
+    caseName,
+    resultId: result.id,
+    endpointId: result.endpointId,
+    endpointName: result.endpointName,
+    status: result.status,
+    passed: isTestPassing(result, assertions),
+    timestamp: new Date(result.timestamp).toISOString(),
+    latencyMs: result.latencyMs ?? null,
+    tokensInput: result.tokensInput ?? null,
+    tokensOutput: result.tokensOutput ?? null,
+    estimatedCostCents: result.estimatedCostCents ?? null,
+    input: result.input,
+    output: result.output,
+    error: result.error ?? null,
+    validationErrors: result.outputValidation?.errors ?? [],
+    failedAssertions: assertions.filter(a => !a.passed).map(a => a.message),
+  };
+}
+
+/**
+ * Flatten suite runs and ad-hoc results into report entries. Suite cases come
+ * first in run order; results already covered by a suite are not repeated.
+ */
+export function buildTestReportEntries(
+  results: TestResult[],
+  suites: TestSuiteReport[] = []
+): TestReportEntry[] {
+  const entries: TestReportEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const suite of suites) {
+    for (const testCase of suite.cases) {
+      seen.add(testCase.result.id);
+      entries.push(
+        toEntry(
+          testCase.result,
+          suite,
+          testCase.caseId,
+          testCase.caseName,
+          testCase.assertions
+        )
+      );
+    }
+  }
+
+  for (const result of [...results].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (seen.has(result.id)) {
+      continue;
+    }
+    seen.add(result.id);
+    entries.push(toEntry(result, null, null, null, []));
+  }
+
+  return entries;
+}
+
+/**
+ * The report timestamp: the caller's, else the latest run, else now
+ */
+function reportTimestamp(
+  entries: TestReportEntry[],
+  options: TestReportOptions
+): string {
+  const generatedAt =
+    options.generatedAt ??
+    (entries.length > 0
+      ? entries.reduce(
+          (latest, entry) => Math.max(latest, Date.parse(entry.timestamp)),
+          0
+        )
+      : Date.now());
+  return new Date(generatedAt).toISOString();
+}
+
+/**
+ * Build the stable JSON report object
+ */
+export function buildTestReport(
+  results: TestResult[],
+  suites: TestSuiteReport[] = [],
+  options: TestReportOptions = {}
+): TestReport {
+  const entries = buildTestReportEntries(results, suites);
+  const passed = entries.filter(e => e.passed).length;
+  return {
+    version: TEST_REPORT_VERSION,
+    generatedAt: reportTimestamp(entries, options),
+    summary: {
+      total: entries.length,
+      passed,
+      failed: entries.length - passed,
+      latencyMsTotal: entries.reduce((sum, e) => sum + (e.latencyMs ?? 0), 0),
+      tokensInput: entries.reduce((sum, e) => sum + (e.tokensInput ?? 0), 0),
+      tokensOutput: entries.reduce((sum, e) => sum + (e.tokensOutput ?? 0), 0),
+    },
+    entries,
+  };
+}
+
+/**
+ * Serialize test results as a JSON report
+ */
+export function toJsonReport(
+  results: TestResult[],
+  suites: TestSuiteReport[] = [],
+  options: TestReportOptions = {}
+): string {
+  return JSON.stringify(buildTestReport(results, suites, options), null, 2);
+}
+
+const CSV_COLUMNS: (keyof TestReportEntry)[] = [
+  'suiteId',
+  'suiteName',
+  'caseId',
+  'caseName',
+  'resultId',
+  'endpointId',
+  'endpointName',
+  'status',
+  'passed',
+  'timestamp',
+  'latencyMs',
+  'tokensInput',
+  'tokensOutput',
+  'estimatedCostCents',
+  'input',
+  'output',
+  'error',
+  'validationErrors',
+  'failedAssertions',
+];
+
+function csvCell(value: unknown): string {
+  let text: string;
+  if (value === null || value === undefined) {
+    text = '';
+  } else if (Array.isArray(value) && value.every(v => typeof v === 'string')) {
+    text = value.join('; ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize test results as CSV (RFC 4180), one row per run. Input and output
+ * are JSON-encoded; error lists are joined with "; ".
+ */
+export function toCsvReport(
+  results: TestResult[],
+  suites: TestSuiteReport[] = []
+): string {
+  const rows = buildTestReportEntries(results, suites).map(entry =>
+    CSV_COLUMNS.map(column => csvCell(entry[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Drop control characters not allowed in XML 1.0 (all but tab, LF and CR)
+ */
+function stripControlCharacters(value: string): string {
+  return Array.from(value)
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join('');
+}
+
+function escapeXml(value: string): string {
+  return stripControlCharacters(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function seconds(ms: Optional<number>): string {
+  return ((ms ?? 0) / 1000).toFixed(3);
+}
+
+/**
+ * JUnit outcome: failures are unmet expectations, errors are failed calls
+ */
+function junitOutcome(
+  entry: TestReportEntry
+): 'passed' | 'failure' | 'error' | 'skipped' {
+  if (entry.status === 'cancelled') {
+    return 'skipped';
+  }
+  if (entry.passed) {
+    return 'passed';
+  }
+  return entry.error ||
+    entry.validationErrors.length + entry.failedAssertions.length === 0
+    ? 'error'
+    : 'failure';
+}
+
+function junitTestCase(entry: TestReportEntry): string {
+  const lines = [
+    `    <testcase name="${escapeXml(entry.caseName ?? entry.resultId)}" classname="${escapeXml(entry.endpointName)}" time="${seconds(entry.latencyMs)}">`,
+  ];
+  const properties: [string, Optional<number | string>][] = [
+    ['status', entry.status],
+    ['tokens_input', entry.tokensInput],
+    ['tokens_output', entry.tokensOutput],
+    ['estimated_cost_cents', entry.estimatedCostCents],
+  ];
+  lines.push('      <properties>');
+  for (const [name, value] of properties) {
+    if (value !== null && value !== undefined) {
+      lines.push(
+        `        <property name="${name}" value="${escapeXml(String(value))}"/>`
+      );
+    }
+  }
+  lines.push('      </properties>');
+
+  const outcome = junitOutcome(entry);
+  if (outcome === 'skipped') {
+    lines.push('      <skipped message="cancelled"/>');
+  } else if (outcome === 'error') {
+    const message = entry.error ?? 'Test failed';
+    lines.push(
+      `      <error message="${escapeXml(message)}" type="${entry.status}">${escapeXml(message)}</error>`
+    );
+  } else if (outcome === 'failure') {
+    const problems = [...entry.validationErrors, ...entry.failedAssertions];
+    lines.push(
+      `      <failure message="${escapeXml(problems[0])}" type="assertion">${escapeXml(problems.join('\n'))}</failure>`
+    );
+  }
+
+  const io = JSON.stringify({ input: entry.input, output: entry.output });
+  lines.push(`      <system-out>${escapeXml(io)}</system-out>`);
+  lines.push('    </testcase>');
+  return lines.join('\n');
+}
+
+/**
+ * Serialize test results as JUnit XML. Each suite run becomes a <testsuite>;
+ * ad-hoc results are grouped into one <testsuite> per endpoint.
+ */
+export function toJUnitXml(
+  results: TestResult[],
+  suites: TestSuiteReport[] = [],
+  options: TestReportOptions = {}
+): string {
+  const entries = buildTestReportEntries(results, suites);
+  const groups = new Map<string, TestReportEntry[]>();
+  for (const entry of entries) {
+    const key = entry.suiteId
+      ? `suite:${entry.suiteId}`
+      : `endpoint:${entry.endpointId}`;
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  const count = (list: TestReportEntry[]) => ({
+    failures: list.filter(e => junitOutcome(e) === 'failure').length,
+    errors: list.filter(e => junitOutcome(e) === 'error').length,
+    skipped: list.filter(e => junitOutcome(e) === 'skipped').length,
+    time: seconds(list.reduce((sum, e) => sum + (e.latencyMs ?? 0), 0)),
+  });
+
+  const body: string[] = [];
+  for (const list of groups.values()) {
+    const first = list[0];
+    const stats = count(list);
+    const name = first.suiteName ?? first.endpointName;
+    body.push(
+      `  <testsuite name="${escapeXml(name)}" tests="${list.length}" failures="${stats.failures}" errors="${stats.errors}" skipped="${stats.skipped}" time="${stats.time}" timestamp="${first.timestamp}">`,
+      ...list.map(junitTestCase),
+      '  </testsuite>'
+    );
+  }
+
+  const totals = count(entries);
+  const timestamp = reportTimestamp(entries, options);
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(options.name ?? 'shapeshyft')}" tests="${entries.length}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${totals.time}" timestamp="${timestamp}">`,
+    ...body,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  TestCaseReport,
+  TestResult,
+  TestSuiteReport,
+} from '../hooks/useEndpointTester';
+import {
+  diffJson,
+  diffSuiteReports,
+  diffTestResults,
+} from './test-result-diff';
+
+function result(
+  id: string,
+  output: unknown,
+  overrides: Partial<TestResult> = {}
+): TestResult {
+  return {
+    id,
+    endpointId: 'ep-1',
+    endpointName: 'analyze',
+    input: { text: 'great' },
+    output: { output, usage: { tokens_input: 100, tokens_output: 20 } },
+    success: true,
+    status: 'success',
+    error: null,
+    timestamp: 0,
+    latencyMs: 300,
+    tokensInput: 100,
+    tokensOutput: 20,
+    outputValidation: null,
+    attempts: [],
+    estimatedCostCents: null,
+    ...overrides,
+  };
+}
+
+function testCase(id: string, passed: boolean): TestCaseReport {
+  return {
+    caseId: id,
+    caseName: id,
+    passed,
+    result: result(`${id}-run`, { ok: passed }),
+    assertions: [],
+  };
+}
+
+function suite(cases: TestCaseReport[]): TestSuiteReport {
+  const passed = cases.filter(c => c.passed).length;
+  return {
+    suiteId: 's1',
+    suiteName: 'Smoke',
+    endpointId: 'ep-1',
+    startedAt: 0,
+    finishedAt: 1,
+    passed,
+    failed: cases.length - passed,
+    total: cases.length,
+    cases,
+  };
+}
+
+describe('diffJson', () => {
+  it('should report nested changes with JSON Pointer paths', () => {
+    expect(
+      diffJson(
+        { a: { b: 1, c: 'x' }, 'd/e': true },
+        { a: { b: 2, c: 'x' }, 'd/e': false }
+      )
+    ).toEqual([
+      { path: '/a/b', kind: 'changed', before: 1, after: 2 },
+      { path: '/d~1e', kind: 'changed', before: true, after: false },
+    ]);
+  });
+
+  it('should report added and removed keys', () => {
+    expect(diffJson({ a: 1, b: 2 }, { b: 2, c: 3 })).toEqual([
+      { path: '/a', kind: 'removed', before: 1 },
+      { path: '/c', kind: 'added', after: 3 },
+    ]);
+  });
+
+  it('should compare arrays by index', () => {
+    expect(diffJson({ tags: ['a', 'b'] }, { tags: ['a', 'c', 'd'] })).toEqual([
+      { path: '/tags/1', kind: 'changed', before: 'b', after: 'c' },
+      { path: '/tags/2', kind: 'added', after: 'd' },
+    ]);
+    expect(diffJson([1, 2], [1])).toEqual([
+      { path: '/1', kind: 'removed', before: 2 },
+    ]);
+  });
+
+  it('should replace values whose type changes', () => {
+    expect(diffJson({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { path: '/a', kind: 'changed', before: [1], after: { 0: 1 } },
+    ]);
+    expect(diffJson({ a: 1 }, { a: 1 })).toEqual([]);
+  });
+});
+
+describe('diffTestResults', () => {
+  it('should diff model output and metrics', () => {
+    const diff = diffTestResults(
+      result('r1', { sentiment: 'positive' }),
+      result(
+        'r2',
+        { sentiment: 'negative' },
+        { latencyMs: 250, tokensOutput: null }
+      )
+    );
+    expect(diff).toMatchObject({
+      beforeId: 'r1',
+      afterId: 'r2',
+      sameInput: true,
+      outputChanges: [
+        {
+          path: '/sentiment',
+          kind: 'changed',
+          before: 'positive',
+          after: 'negative',
+        },
+      ],
+      latencyDeltaMs: -50,
+      tokensInputDelta: 0,
+      tokensOutputDelta: null,
+    });
+  });
+});
+
+describe('diffSuiteReports', () => {
+  it('should classify cases matched by ID', () => {
+    const diff = diffSuiteReports(
+      suite([
+        testCase('keep', true),
+        testCase('break', true),
+        testCase('repair', false),
+        testCase('drop', true),
+      ]),
+      suite([
+        testCase('keep', true),
+        testCase('break', false),
+        testCase('repair', true),
+        testCase('new', false),
+      ])
+    );
+    expect(diff.cases.map(c => [c.caseId, c.status])).toEqual([
+      ['keep', 'stillPassing'],
+      ['break', 'regressed'],
+      ['repair', 'fixed'],
+      ['new', 'added'],
+      ['drop', 'removed'],
+    ]);
+    expect(diff.summary).toEqual({
+      regressed: ['break'],
+      fixed: ['repair'],
+      added: ['new'],
+      removed: ['drop'],
+      passedBefore: 3,
+      passedAfter: 2,
+    });
+    expect(diff.cases[1].resultDiff?.outputChanges).toHaveLength(1);
+    expect(diff.cases[3].resultDiff).toBeNull();
+  });
+});
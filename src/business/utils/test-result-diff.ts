@@ -0,0 +1,232 @@
+/**
+ * Test result diff
+ * Structured comparison of two test runs or two suite runs
+ */
+
+import type { Optional } from '@sudobility/shapeshyft_types';
+import type { TestResult, TestSuiteReport } from '../hooks/useEndpointTester';
+import { escapeJsonPointer, isJsonEqual } from './json-schema-validator';
+import { extractModelOutput } from './test-assertions';
+
+/**
+ * A single field-level change between two JSON values
+ */
+export interface JsonChange {
+  /** JSON Pointer to the changed value */
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Comparison of two test results
+ */
+export interface TestResultDiff {
+  beforeId: string;
+  afterId: string;
+  /** True when both runs used an identical input */
+  sameInput: boolean;
+  inputChanges: JsonChange[];
+  /** Changes in the model output */
+  outputChanges: JsonChange[];
+  successBefore: boolean;
+  successAfter: boolean;
+  /** after - before, null when either side is unknown */
+  latencyDeltaMs: Optional<number>;
+  tokensInputDelta: Optional<number>;
+  tokensOutputDelta: Optional<number>;
+}
+
+/**
+ * How a suite case changed between two runs
+ */
+export type CaseChangeStatus =
+  | 'stillPassing'
+  | 'stillFailing'
+  | 'fixed'
+  | 'regressed'
+  | 'added'
+  | 'removed';
+
+/**
+ * Comparison of one case across two suite runs
+ */
+export interface CaseDiff {
+  caseId: string;
+  caseName: string;
+  status: CaseChangeStatus;
+  /** Present when the case ran in both suite runs */
+  resultDiff: Optional<TestResultDiff>;
+}
+
+/**
+ * Comparison of two suite runs
+ */
+export interface SuiteRunDiff {
+  suiteId: string;
+  cases: CaseDiff[];
+  summary: {
+    /** Case IDs that went from pass to fail */
+    regressed: string[];
+    /** Case IDs that went from fail to pass */
+    fixed: string[];
+    added: string[];
+    removed: string[];
+    passedBefore: number;
+    passedAfter: number;
+  };
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compute field-level changes between two JSON values
+ */
+export function diffJson(
+  before: unknown,
+  after: unknown,
+  path = ''
+): JsonChange[] {
+  if (isJsonEqual(before, after)) {
+    return [];
+  }
+
+  if (isObject(before) && isObject(after)) {
+    const changes: JsonChange[] = [];
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const childPath = `${path}/${escapeJsonPointer(key)}`;
+      if (before[key] === undefined) {
+        changes.push({ path: childPath, kind: 'added', after: after[key] });
+      } else if (after[key] === undefined) {
+        changes.push({ path: childPath, kind: 'removed', before: before[key] });
+      } else {
+        changes.push(...diffJson(before[key], after[key], childPath));
+      }
+    }
+    return changes;
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: JsonChange[] = [];
+    const length = Math.max(before.length, after.length);
+    for (let index = 0; index < length; index++) {
+      const childPath = `${path}/${index}`;
+      if (index >= before.length) {
+        changes.push({ path: childPath, kind: 'added', after: after[index] });
+      } else if (index >= after.length) {
+        changes.push({
+          path: childPath,
+          kind: 'removed',
+          before: before[index],
+        });
+      } else {
+        changes.push(...diffJson(before[index], after[index], childPath));
+      }
+    }
+    return changes;
+  }
+
+  return [{ path, kind: 'changed', before, after }];
+}
+
+/**
+ * Difference between two optional numbers
+ */
+function delta(before: Optional<number>, after: Optional<number>) {
+  return before != null && after != null ? after - before : null;
+}
+
+/**
+ * Compare two runs of the same endpoint
+ */
+export function diffTestResults(
+  before: TestResult,
+  after: TestResult
+): TestResultDiff {
+  const inputChanges = diffJson(before.input, after.input);
+  return {
+    beforeId: before.id,
+    afterId: after.id,
+    sameInput: inputChanges.length === 0,
+    inputChanges,
+    outputChanges: diffJson(
+      extractModelOutput(before.output),
+      extractModelOutput(after.output)
+    ),
+    successBefore: before.success,
+    successAfter: after.success,
+    latencyDeltaMs: delta(before.latencyMs, after.latencyMs),
+    tokensInputDelta: delta(before.tokensInput, after.tokensInput),
+    tokensOutputDelta: delta(before.tokensOutput, after.tokensOutput),
+  };
+}
+
+/**
+ * Compare two runs of the same suite, matching cases by ID
+ */
+export function diffSuiteReports(
+  before: TestSuiteReport,
+  after: TestSuiteReport
+): SuiteRunDiff {
+  const beforeCases = new Map(before.cases.map(c => [c.caseId, c]));
+  const afterCases = new Map(after.cases.map(c => [c.caseId, c]));
+  const cases: CaseDiff[] = [];
+
+  for (const current of after.cases) {
+    const previous = beforeCases.get(current.caseId);
+    let status: CaseChangeStatus;
+    if (!previous) {
+      status = 'added';
+    } else if (previous.passed && current.passed) {
+      status = 'stillPassing';
+    } else if (previous.passed) {
+      status = 'regressed';
+    } else if (current.passed) {
+      status = 'fixed';
+    } else {
+      status = 'stillFailing';
+    }
+    cases.push({
+      caseId: current.caseId,
+      caseName: current.caseName,
+      status,
+      resultDiff: previous
+        ? diffTestResults(previous.result, current.result)
+        : null,
+    });
+  }
+
+  for (const previous of before.cases) {
+    if (!afterCases.has(previous.caseId)) {
+      cases.push({
+        caseId: previous.caseId,
+        caseName: previous.caseName,
+        status: 'removed',
+        resultDiff: null,
+      });
+    }
+  }
+
+  const idsWith = (status: CaseChangeStatus) =>
+    cases.filter(c => c.status === status).map(c => c.caseId);
+
+  return {
+    suiteId: after.suiteId,
+    cases,
+    summary: {
+      regressed: idsWith('regressed'),
+      fixed: idsWith('fixed'),
+      added: idsWith('added'),
+      removed: idsWith('removed'),
+      passedBefore: before.passed,
+      passedAfter: after.passed,
+    },
+  };
+}
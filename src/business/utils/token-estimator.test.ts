@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildOfflinePrompt,
+  createHeuristicTokenCounter,
+  estimateTokens,
+  estimateTokenUsage,
+} from './token-estimator';
+import { sentimentAnalyzerTemplate } from '../templates/endpoint-templates';
+
+describe('createHeuristicTokenCounter', () => {
+  it('should cost words, digits, punctuation and CJK separately', () => {
+    const count = createHeuristicTokenCounter({
+      charsPerToken: 4,
+      digitsPerToken: 3,
+      cjkTokensPerChar: 1,
+    });
+    expect(count('')).toBe(0);
+    // hello(2) world(2) !(1)
+    expect(count('hello world!')).toBe(5);
+    // 1234567 -> 3 digit groups
+    expect(count('1234567')).toBe(3);
+    expect(count('日本語')).toBe(3);
+    expect(count('a\n\n  b')).toBe(3);
+  });
+
+  it('should differ by provider family', () => {
+    expect(estimateTokens('2024', 'openai')).toBe(2);
+    expect(estimateTokens('2024', 'gemini')).toBe(4);
+  });
+});
+
+describe('estimateTokenUsage', () => {
+  const endpoint = {
+    ...sentimentAnalyzerTemplate.endpoints[0],
+    context: null,
+  };
+
+  it('should estimate from an offline prompt and price it', () => {
+    const estimate = estimateTokenUsage({
+      model: { provider: 'openai', model: 'gpt-4o-mini' },
+      endpoint,
+      input: { text: 'I love this product' },
+    });
+    const prompt = buildOfflinePrompt(endpoint, {
+      text: 'I love this product',
+    });
+
+    expect(prompt).toContain('I love this product');
+    expect(estimate.tokensInput).toBe(estimateTokens(prompt, 'openai'));
+    expect(estimate.tokensOutput).toBeGreaterThan(0);
+    expect(estimate.pricing?.model).toBe('gpt-4o-mini');
+    expect(estimate.costCents).toBeCloseTo(
+      (estimate.tokensInput * 15 + estimate.tokensOutput * 60) / 1_000_000
+    );
+  });
+
+  it('should prefer prompt text and accept custom counters', () => {
+    const estimate = estimateTokenUsage(
+      {
+        model: { provider: 'anthropic' },
+        prompt: 'one two three',
+        outputTokens: 10,
+      },
+      {
+        tokenCounters: { anthropic: text => text.split(' ').length },
+        pricingCatalog: [],
+      }
+    );
+    expect(estimate).toEqual({
+      tokensInput: 3,
+      tokensOutput: 10,
+      costCents: null,
+      pricing: undefined,
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Token estimation
+ * Approximate token counts and cost for a prompt without calling a tokenizer
+ * service, so estimates can update while the user types
+ */
+
+import type {
+  Endpoint,
+  JsonSchema,
+  LlmProvider,
+} from '@sudobility/shapeshyft_types';
+import {
+  DEFAULT_MODEL_PRICING,
+  estimateCostCents,
+  findModelPricing,
+  type ModelPricing,
+  type ModelRef,
+  type PricingCatalog,
+} from './pricing';
+import { generateSampleValue } from './sample-input';
+
+/**
+ * Counts tokens in a text
+ */
+export type TokenCounter = (text: string) => number;
+
+/**
+ * Parameters of the heuristic tokenizer for one provider family
+ */
+export interface TokenizerHeuristic {
+  /** Average letters per token within a word */
+  charsPerToken: number;
+  /** Digits merged into one token */
+  digitsPerToken: number;
+  /** Tokens per CJK character */
+  cjkTokensPerChar: number;
+}
+
+/**
+ * Rough per-family heuristics: OpenAI merges up to three digits, Gemini and
+ * most open models split digits, and Claude produces slightly more tokens
+ * for the same English text
+ */
+export const DEFAULT_TOKENIZER_HEURISTICS: Record<
+  LlmProvider,
+  TokenizerHeuristic
+> = {
+  openai: { charsPerToken: 4, digitsPerToken: 3, cjkTokensPerChar: 1 },
+  anthropic: { charsPerToken: 3.5, digitsPerToken: 3, cjkTokensPerChar: 1.2 },
+  gemini: { charsPerToken: 4, digitsPerToken: 1, cjkTokensPerChar: 1 },
+  llm_server: { charsPerToken: 3.5, digitsPerToken: 1, cjkTokensPerChar: 1.5 },
+};
+
+const SEGMENT_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|\p{L}+|\p{N}+|\s+|[^\s\p{L}\p{N}]/gu;
+const CJK_PATTERN =
+  /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]$/u;
+
+/**
+ * Build a token counter from heuristic parameters. Text is split into words,
+ * digit runs, CJK characters, whitespace and punctuation, each costed
+ * separately.
+ */
+export function createHeuristicTokenCounter(
+  heuristic: TokenizerHeuristic
+): TokenCounter {
+  return (text: string) => {
+    let tokens = 0;
+    for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+      if (CJK_PATTERN.test(segment)) {
+        tokens += heuristic.cjkTokensPerChar;
+      } else if (/^\p{L}/u.test(segment)) {
+        tokens += Math.ceil(segment.length / heuristic.charsPerToken);
+      } else if (/^\p{N}/u.test(segment)) {
+        tokens += Math.ceil(segment.length / heuristic.digitsPerToken);
+      } else if (/^\s/u.test(segment)) {
+        // A single space joins the following word; longer runs
+        // (newlines, indentation) usually become one token
+        tokens += segment.length > 1 ? 1 : 0;
+      } else {
+        tokens += 1;
+      }
+    }
+    return Math.ceil(tokens);
+  };
+}
+
+/**
+ * Endpoint fields used to rebuild a prompt offline
+ */
+export type PromptEndpoint = Pick<
+  Endpoint,
+  'instructions' | 'context' | 'input_schema' | 'output_schema'
+>;
+
+/**
+ * Approximate the prompt the server builds for an endpoint and input. The
+ * server's exact framing differs, so prefer getPrompt text when available.
+ */
+export function buildOfflinePrompt(
+  endpoint: PromptEndpoint,
+  input: unknown
+): string {
+  const sections: string[] = [];
+  if (endpoint.instructions) {
+    sections.push(endpoint.instructions);
+  }
+  if (endpoint.context) {
+    sections.push(`Context:\n${endpoint.context}`);
+  }
+  if (endpoint.input_schema) {
+    sections.push(
+      `Input schema:\n${JSON.stringify(endpoint.input_schema, null, 2)}`
+    );
+  }
+  if (endpoint.output_schema) {
+    sections.push(
+      `Respond with JSON matching this schema:\n${JSON.stringify(endpoint.output_schema, null, 2)}`
+    );
+  }
+  if (input !== undefined) {
+    sections.push(`Input:\n${JSON.stringify(input, null, 2)}`);
+  }
+  return sections.join('\n\n');
+}
+
+/**
+ * What to estimate: prompt text from getPrompt, or an endpoint and input
+ */
+export interface TokenEstimateRequest {
+  model: ModelRef;
+  /** Prompt text returned by getPrompt */
+  prompt?: string;
+  /** Endpoint to rebuild the prompt from when no prompt text is given */
+  endpoint?: PromptEndpoint;
+  /** Input used with endpoint */
+  input?: unknown;
+  /**
+   * Expected output tokens (default: the size of a sample value for the
+   * endpoint's output schema, else 0)
+   */
+  outputTokens?: number;
+}
+
+/**
+ * Options for estimateTokenUsage
+ */
+export interface TokenEstimatorOptions {
+  /** Token counters replacing the built-in heuristics per provider */
+  tokenCounters?: Partial<Record<LlmProvider, TokenCounter>>;
+  /** Pricing used for the cost estimate (default: DEFAULT_MODEL_PRICING) */
+  pricingCatalog?: PricingCatalog;
+}
+
+/**
+ * Estimated usage for one request
+ */
+export interface TokenEstimate {
+  tokensInput: number;
+  tokensOutput: number;
+  /** Null when the catalog has no price for the model */
+  costCents: number | null;
+  pricing: ModelPricing | undefined;
+}
+
+/**
+ * Count tokens in a text with the provider's heuristic
+ */
+export function estimateTokens(
+  text: string,
+  provider: LlmProvider,
+  options: Pick<TokenEstimatorOptions, 'tokenCounters'> = {}
+): number {
+  const counter =
+    options.tokenCounters?.[provider] ??
+    createHeuristicTokenCounter(DEFAULT_TOKENIZER_HEURISTICS[provider]);
+  return counter(text);
+}
+
+function sampleOutputTokens(
+  schema: JsonSchema | null | undefined,
+  count: (text: string) => number
+): number {
+  if (!schema) {
+    return 0;
+  }
+  return count(JSON.stringify(generateSampleValue(schema)) ?? '');
+}
+
+/**
+ * Estimate input and output tokens and cost for a request, offline
+ */
+export function estimateTokenUsage(
+  request: TokenEstimateRequest,
+  options: TokenEstimatorOptions = {}
+): TokenEstimate {
+  const count = (text: string) =>
+    estimateTokens(text, request.model.provider, options);
+  const prompt =
+    request.prompt ??
+    (request.endpoint
+      ? buildOfflinePrompt(request.endpoint, request.input)
+      : JSON.stringify(request.input ?? null));
+
+  const tokensInput = count(prompt);
+  const tokensOutput =
+    request.outputTokens ??
+    sampleOutputTokens(request.endpoint?.output_schema, count);
+  const pricing = findModelPricing(
+    options.pricingCatalog ?? DEFAULT_MODEL_PRICING,
+    request.model
+  );
+  return {
+    tokensInput,
+    tokensOutput,
+    costCents: pricing
+      ? estimateCostCents(pricing, tokensInput, tokensOutput)
+      : null,
+    pricing,
+  };
+}
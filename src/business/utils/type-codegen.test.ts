@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import ts from 'typescript';
+import { generateEndpointTypes, generateProjectTypes } from './type-codegen';
+import {
+  ALL_TEMPLATES,
+  dataExtractorTemplate,
+} from '../templates/endpoint-templates';
+
+describe('generateEndpointTypes', () => {
+  it('should emit interfaces and Zod schemas', () => {
+    const extract = dataExtractorTemplate.endpoints.find(
+      e => e.endpoint_name === 'extract-fields'
+    )!;
+    const source = generateEndpointTypes(extract);
+
+    expect(source).toContain('export interface ExtractFieldsInput {');
+    expect(source).toContain(
+      '  /** The text to extract data from */\n  text: string;'
+    );
+    expect(source).toContain(
+      '  fields: {\n    name: string;\n    type?: string;\n    description?: string;\n  }[];'
+    );
+    expect(source).toContain(
+      'export const ExtractFieldsInputSchema = z.object({'
+    );
+    expect(source).toContain(
+      "  text: z.string().describe('The text to extract data from'),"
+    );
+    expect(source).toContain('    type: z.string().optional(),');
+  });
+
+  it('should handle enums and nullable unions', () => {
+    const source = generateEndpointTypes(
+      {
+        endpoint_name: 'rate',
+        display_name: 'Rate',
+        input_schema: {
+          type: 'object',
+          properties: {
+            tone: { type: 'string', enum: ['formal', 'casual'] },
+            score: {
+              type: ['integer', 'null'] as unknown as string,
+              maximum: 5,
+            },
+          },
+          required: ['tone'],
+        },
+        output_schema: null,
+      },
+      { zod: true }
+    );
+    expect(source).toContain("tone: 'formal' | 'casual';");
+    expect(source).toContain('score?: number | null;');
+    expect(source).toContain("tone: z.enum(['formal', 'casual']),");
+    expect(source).toContain(
+      'score: z.number().int().max(5).nullable().optional(),'
+    );
+    expect(source).toContain('export type RateOutput = unknown;');
+  });
+});
+
+describe('generateProjectTypes', () => {
+  it('should emit a syntactically valid module for every template', () => {
+    const source = generateProjectTypes(
+      ALL_TEMPLATES.flatMap(t => t.endpoints)
+    );
+    const { diagnostics } = ts.transpileModule(source, {
+      reportDiagnostics: true,
+      compilerOptions: { module: ts.ModuleKind.ESNext },
+    });
+    expect(diagnostics ?? []).toEqual([]);
+    expect(source.match(/^import \{ z \} from 'zod';$/gm)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * Type generation
+ * Emit TypeScript interfaces and Zod schemas from endpoint JSON Schemas, as
+ * source text for build scripts
+ */
+
+import type { Endpoint, JsonSchema } from '@sudobility/shapeshyft_types';
+
+/**
+ * Endpoint fields the generator needs
+ */
+export type CodegenEndpoint = Pick<
+  Endpoint,
+  'endpoint_name' | 'display_name' | 'input_schema' | 'output_schema'
+>;
+
+/**
+ * Options for generated source
+ */
+export interface TypeCodegenOptions {
+  /** Emit Zod schemas alongside the interfaces (default: true) */
+  zod?: boolean;
+  /** Comment placed at the top of a generated module */
+  header?: string;
+}
+
+const DEFAULT_HEADER =
+  'Generated from ShapeShyft endpoint schemas. Do not edit by hand.';
+
+/**
+ * Type name for an endpoint, e.g. translate-batch -> TranslateBatch
+ */
+export function toTypeName(endpointName: string): string {
+  const name = endpointName
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return /^[0-9]/.test(name) ? `Endpoint${name}` : name || 'Endpoint';
+}
+
+function quote(value: string): string {
+  return `'${value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')}'`;
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? quote(value) : JSON.stringify(value);
+}
+
+function propertyKey(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : quote(key);
+}
+
+function docComment(description: unknown, indent: string): string[] {
+  if (typeof description !== 'string' || description.trim() === '') {
+    return [];
+  }
+  const lines = description.trim().replace(/\*\//g, '*\\/').split('\n');
+  return lines.length === 1
+    ? [`${indent}/** ${lines[0]} */`]
+    : [
+        `${indent}/**`,
+        ...lines.map(line => `${indent} * ${line}`.trimEnd()),
+        `${indent} */`,
+      ];
+}
+
+/**
+ * JSON types a schema allows, inferring object/array from keywords
+ */
+function schemaTypes(schema: JsonSchema): string[] {
+  if (Array.isArray(schema.type)) {
+    return schema.type as string[];
+  }
+  if (schema.type) {
+    return [schema.type];
+  }
+  if (schema.properties) {
+    return ['object'];
+  }
+  if (schema.items) {
+    return ['array'];
+  }
+  return [];
+}
+
+function variantsOf(schema: JsonSchema): JsonSchema[] | undefined {
+  const variants = schema.oneOf ?? schema.anyOf;
+  return Array.isArray(variants) ? (variants as JsonSchema[]) : undefined;
+}
+
+/**
+ * Whether a type expression has a top-level | or & that needs parentheses
+ */
+function needsParens(type: string): boolean {
+  let depth = 0;
+  for (const char of type) {
+    if ('{(<['.includes(char)) {
+      depth++;
+    } else if ('})>]'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && (char === '|' || char === '&')) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function tsType(schema: JsonSchema, indent: string): string {
+  if (schema.const !== undefined) {
+    return literal(schema.const);
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.map(literal).join(' | ');
+  }
+  const variants = variantsOf(schema);
+  if (variants) {
+    return variants.map(v => tsType(v, indent)).join(' | ');
+  }
+  if (Array.isArray(schema.allOf)) {
+    return (schema.allOf as JsonSchema[])
+      .map(part => {
+        const type = tsType(part, indent);
+        return needsParens(type) ? `(${type})` : type;
+      })
+      .join(' & ');
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 1) {
+    return types.map(type => tsType({ ...schema, type }, indent)).join(' | ');
+  }
+  switch (types[0]) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      if (!schema.items) {
+        return 'unknown[]';
+      }
+      const item = tsType(schema.items, indent);
+      return needsParens(item) ? `(${item})[]` : `${item}[]`;
+    }
+    case 'object': {
+      if (schema.properties && Object.keys(schema.properties).length > 0) {
+        return `{\n${tsProperties(schema, `${indent}  `).join('\n')}\n${indent}}`;
+      }
+      return typeof schema.additionalProperties === 'object'
+        ? `Record<string, ${tsType(schema.additionalProperties, indent)}>`
+        : 'Record<string, unknown>';
+    }
+    default:
+      return 'unknown';
+  }
+}
+
+function tsProperties(schema: JsonSchema, indent: string): string[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties ?? {}).flatMap(([key, prop]) => [
+    ...docComment(prop.description, indent),
+    `${indent}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${tsType(prop, indent)};`,
+  ]);
+}
+
+/**
+ * TypeScript declaration for a schema: an interface for objects with
+ * properties, a type alias otherwise
+ */
+export function generateTypeScriptType(
+  name: string,
+  schema: JsonSchema,
+  description?: string
+): string {
+  const lines = docComment(description ?? schema.description, '');
+  const isInterface =
+    schemaTypes(schema).join() === 'object' &&
+    schema.properties &&
+    Object.keys(schema.properties).length > 0 &&
+    schema.enum === undefined &&
+    variantsOf(schema) === undefined &&
+    schema.allOf === undefined;
+  if (isInterface) {
+    lines.push(
+      `export interface ${name} {`,
+      ...tsProperties(schema, '  '),
+      '}'
+    );
+  } else {
+    lines.push(`export type ${name} = ${tsType(schema, '')};`);
+  }
+  return lines.join('\n');
+}
+
+function zodString(schema: JsonSchema): string {
+  let zod = 'z.string()';
+  switch (schema.format) {
+    case 'email':
+      zod += '.email()';
+      break;
+    case 'uri':
+    case 'url':
+      zod += '.url()';
+      break;
+    case 'uuid':
+      zod += '.uuid()';
+      break;
+    case 'date-time':
+      zod += '.datetime({ offset: true })';
+      break;
+  }
+  if (schema.minLength !== undefined) {
+    zod += `.min(${schema.minLength})`;
+  }
+  if (schema.maxLength !== undefined) {
+    zod += `.max(${schema.maxLength})`;
+  }
+  if (schema.pattern) {
+    zod += `.regex(new RegExp(${quote(schema.pattern)}))`;
+  }
+  return zod;
+}
+
+function zodNumber(schema: JsonSchema, integer: boolean): string {
+  let zod = integer ? 'z.number().int()' : 'z.number()';
+  if (schema.minimum !== undefined) {
+    zod += `.min(${schema.minimum})`;
+  }
+  if (typeof schema.exclusiveMinimum === 'number') {
+    zod += `.gt(${schema.exclusiveMinimum})`;
+  }
+  if (schema.maximum !== undefined) {
+    zod += `.max(${schema.maximum})`;
+  }
+  if (typeof schema.exclusiveMaximum === 'number') {
+    zod += `.lt(${schema.exclusiveMaximum})`;
+  }
+  return zod;
+}
+
+function zodUnion(members: string[]): string {
+  return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+}
+
+function zodType(schema: JsonSchema, indent: string): string {
+  if (schema.const !== undefined) {
+    return `z.literal(${literal(schema.const)})`;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return schema.enum.every(v => typeof v === 'string')
+      ? `z.enum([${schema.enum.map(literal).join(', ')}])`
+      : zodUnion(schema.enum.map(v => `z.literal(${literal(v)})`));
+  }
+  const variants = variantsOf(schema);
+  if (variants) {
+    return zodUnion(variants.map(v => zodType(v, indent)));
+  }
+  if (Array.isArray(schema.allOf) && schema.allOf.length > 0) {
+    const [first, ...rest] = (schema.allOf as JsonSchema[]).map(part =>
+      zodType(part, indent)
+    );
+    return rest.reduce((acc, part) => `${acc}.and(${part})`, first);
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length > 1) {
+    const nonNull = types.filter(type => type !== 'null');
+    const zod = zodUnion(
+      nonNull.map(type => zodType({ ...schema, type }, indent))
+    );
+    return nonNull.length < types.length ? `${zod}.nullable()` : zod;
+  }
+  switch (types[0]) {
+    case 'string':
+      return zodString(schema);
+    case 'number':
+    case 'integer':
+      return zodNumber(schema, types[0] === 'integer');
+    case 'boolean':
+      return 'z.boolean()';
+    case 'null':
+      return 'z.null()';
+    case 'array': {
+      let zod = `z.array(${schema.items ? zodType(schema.items, indent) : 'z.unknown()'})`;
+      if (typeof schema.minItems === 'number') {
+        zod += `.min(${schema.minItems})`;
+      }
+      if (typeof schema.maxItems === 'number') {
+        zod += `.max(${schema.maxItems})`;
+      }
+      return zod;
+    }
+    case 'object': {
+      if (schema.properties && Object.keys(schema.properties).length > 0) {
+        const inner = `${indent}  `;
+        const required = new Set(schema.required ?? []);
+        const props = Object.entries(schema.properties).map(([key, prop]) => {
+          let zod = zodType(prop, inner);
+          if (typeof prop.description === 'string' && prop.description) {
+            zod += `.describe(${quote(prop.description)})`;
+          }
+          if (!required.has(key)) {
+            zod += '.optional()';
+          }
+          return `${inner}${propertyKey(key)}: ${zod},`;
+        });
+        return `z.object({\n${props.join('\n')}\n${indent}})`;
+      }
+      return typeof schema.additionalProperties === 'object'
+        ? `z.record(z.string(), ${zodType(schema.additionalProperties, indent)})`
+        : 'z.record(z.string(), z.unknown())';
+    }
+    default:
+      return 'z.unknown()';
+  }
+}
+
+/**
+ * Zod schema constant for a schema
+ */
+export function generateZodSchema(name: string, schema: JsonSchema): string {
+  return `export const ${name} = ${zodType(schema, '')};`;
+}
+
+/**
+ * Declarations for one endpoint's input and output, without imports
+ */
+export function generateEndpointTypes(
+  endpoint: CodegenEndpoint,
+  options: TypeCodegenOptions = {}
+): string {
+  const name = toTypeName(endpoint.endpoint_name);
+  const blocks: string[] = [];
+  const parts: [string, JsonSchema | null, string][] = [
+    ['Input', endpoint.input_schema, 'input'],
+    ['Output', endpoint.output_schema, 'output'],
+  ];
+  for (const [suffix, schema, label] of parts) {
+    const resolved = schema ?? {};
+    blocks.push(
+      generateTypeScriptType(
+        `${name}${suffix}`,
+        resolved,
+        `${endpoint.display_name} ${label}`
+      )
+    );
+    if (options.zod ?? true) {
+      blocks.push(generateZodSchema(`${name}${suffix}Schema`, resolved));
+    }
+  }
+  return blocks.join('\n\n');
+}
+
+/**
+ * A complete module declaring types (and Zod schemas) for every endpoint
+ */
+export function generateProjectTypes(
+  endpoints: CodegenEndpoint[],
+  options: TypeCodegenOptions = {}
+): string {
+  const sections = [
+    docComment(options.header ?? DEFAULT_HEADER, '').join('\n'),
+  ];
+  if (options.zod ?? true) {
+    sections.push("import { z } from 'zod';");
+  }
+  for (const endpoint of [...endpoints].sort((a, b) =>
+    a.endpoint_name.localeCompare(b.endpoint_name)
+  )) {
+    sections.push(generateEndpointTypes(endpoint, options));
+  }
+  return `${sections.join('\n\n')}\n`;
+}
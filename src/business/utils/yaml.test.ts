@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { parseYaml, stringifyYaml, YamlParseError } from './yaml';
+
+describe('parseYaml', () => {
+  it('should parse block and flow collections, scalars and comments', () => {
+    const yaml = [
+      '# spec',
+      'openapi: 3.1.0',
+      'info:',
+      '  title: "Support API" # inline comment',
+      "  summary: 'It''s fine'",
+      '  version: 2',
+      'tags: [billing, "sales"]',
+      'empty: {}',
+      'servers:',
+      '- url: https://api.example.com/v1',
+      '  description: Production',
+      '- url: http://localhost:3000',
+      'notes: |',
+      '  line one',
+      '',
+      '  line two',
+      'folded: >-',
+      '  joined',
+      '  together',
+      'flag: true',
+      'nothing: ~',
+    ].join('\n');
+
+    expect(parseYaml(yaml)).toEqual({
+      openapi: '3.1.0',
+      info: { title: 'Support API', summary: "It's fine", version: 2 },
+      tags: ['billing', 'sales'],
+      empty: {},
+      servers: [
+        { url: 'https://api.example.com/v1', description: 'Production' },
+        { url: 'http://localhost:3000' },
+      ],
+      notes: 'line one\n\nline two\n',
+      folded: 'joined together',
+      flag: true,
+      nothing: null,
+    });
+  });
+
+  it('should fold blank lines in > scalars into single newlines', () => {
+    expect(parseYaml('text: >\n  folded\n  text\n\n  para')).toEqual({
+      text: 'folded text\npara\n',
+    });
+    expect(
+      parseYaml('text: >\n  one\n\n\n  two\n    indented\n  three\n')
+    ).toEqual({ text: 'one\n\ntwo\n  indented\nthree\n' });
+  });
+
+  it('should round-trip stringifyYaml output', () => {
+    const value = {
+      '200': { description: 'OK', 'x-list': [1, 'two', null, { a: [] }] },
+      text: 'multi\nline',
+      quoted: 'key: value # not a comment',
+    };
+    expect(parseYaml(stringifyYaml(value))).toEqual(value);
+  });
+
+  it('should report the failing line', () => {
+    expect(() => parseYaml('a:\n  - 1\n  b: 2')).toThrow(YamlParseError);
+    expect(() => parseYaml('a: *alias')).toThrow(/line 1/);
+  });
+});
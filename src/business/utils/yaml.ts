@@ -0,0 +1,614 @@
+/**
+ * YAML
+ * Minimal YAML serializer and parser for JSON-compatible documents such as
+ * OpenAPI specs. Anchors, aliases, tags and multi-document streams are not
+ * supported.
+ */
+
+/**
+ * Thrown when a YAML document cannot be parsed
+ */
+export class YamlParseError extends Error {
+  /** 1-based line number */
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'YamlParseError';
+    this.line = line;
+  }
+}
+
+const RESERVED_SCALARS = new Set([
+  'true',
+  'false',
+  'yes',
+  'no',
+  'on',
+  'off',
+  'null',
+  '~',
+  '',
+]);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function definedEntries(value: Record<string, unknown>): [string, unknown][] {
+  return Object.entries(value).filter(([, v]) => v !== undefined);
+}
+
+/**
+ * Whether a value is written as an indented block rather than inline
+ */
+function isBlock(value: unknown): boolean {
+  return Array.isArray(value)
+    ? value.length > 0
+    : isPlainObject(value) && definedEntries(value).length > 0;
+}
+
+/**
+ * A string that reads back as the same string when left unquoted
+ */
+function isPlainString(value: string): boolean {
+  return (
+    /^[A-Za-z_/][\w .,()/+-]*$/.test(value) &&
+    !/\s$/.test(value) &&
+    !RESERVED_SCALARS.has(value.toLowerCase())
+  );
+}
+
+function scalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'string') {
+    // JSON string escapes are valid in double-quoted YAML
+    return isPlainString(value) ? value : JSON.stringify(value);
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : '.nan';
+  }
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (typeof value === 'object') {
+    return '{}';
+  }
+  return String(value);
+}
+
+/**
+ * Lines for `prefix value`, using a literal block for multi-line strings
+ */
+function emitScalar(prefix: string, value: unknown, indent: number): string[] {
+  if (
+    typeof value === 'string' &&
+    value.includes('\n') &&
+    !value.includes('\r') &&
+    !/^[ \t]/.test(value) &&
+    !/\n\n$/.test(value)
+  ) {
+    const chomp = value.endsWith('\n') ? '' : '-';
+    const pad = ' '.repeat(indent);
+    const lines = value.replace(/\n$/, '').split('\n');
+    return [
+      `${prefix} |${chomp}`,
+      ...lines.map(line => (line ? `${pad}${line}` : '')),
+    ];
+  }
+  return [`${prefix} ${scalar(value)}`];
+}
+
+function emitBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value) && value.length > 0) {
+    return value.flatMap(item => {
+      if (isBlock(item)) {
+        const [first, ...rest] = emitBlock(item, indent + 2);
+        return [`${pad}- ${first.trimStart()}`, ...rest];
+      }
+      return emitScalar(`${pad}-`, item, indent + 2);
+    });
+  }
+  if (isPlainObject(value) && isBlock(value)) {
+    return definedEntries(value).flatMap(([key, item]) => {
+      const prefix = `${pad}${scalar(key)}:`;
+      return isBlock(item)
+        ? [prefix, ...emitBlock(item, indent + 2)]
+        : emitScalar(prefix, item, indent + 2);
+    });
+  }
+  return [`${pad}${scalar(value)}`];
+}
+
+/**
+ * Serialize a JSON-compatible value as block-style YAML. Undefined object
+ * values are omitted, as in JSON.stringify.
+ */
+export function stringifyYaml(value: unknown): string {
+  return `${emitBlock(value, 0).join('\n')}\n`;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Remove a trailing comment (outside quotes) and trailing whitespace
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function isIgnorable(line: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed === '' ||
+    trimmed.startsWith('#') ||
+    trimmed === '---' ||
+    trimmed === '...'
+  );
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+/**
+ * Resolve an unquoted scalar to null, boolean, number or string
+ */
+function resolvePlain(text: string): unknown {
+  if (text === '' || text === '~' || /^null$/i.test(text)) {
+    return null;
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return text.toLowerCase() === 'true';
+  }
+  if (/^[-+]?\d+$/.test(text)) {
+    return Number(text);
+  }
+  if (/^0x[0-9a-f]+$/i.test(text)) {
+    return parseInt(text.slice(2), 16);
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(text)) {
+    return Number(text);
+  }
+  if (/^[-+]?\.inf$/i.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.nan$/i.test(text)) {
+    return NaN;
+  }
+  return text;
+}
+
+/**
+ * Parser for flow collections and quoted scalars on a single logical line
+ */
+function parseInline(text: string, line: number): unknown {
+  let pos = 0;
+  const fail = (message: string): never => {
+    throw new YamlParseError(message, line);
+  };
+  const skipSpace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) {
+      pos++;
+    }
+  };
+
+  const quoted = (): string => {
+    const quote = text[pos];
+    let end = pos + 1;
+    if (quote === "'") {
+      let value = '';
+      for (; ; end++) {
+        if (end >= text.length) {
+          fail('Unterminated quoted string');
+        }
+        if (text[end] === "'") {
+          if (text[end + 1] === "'") {
+            value += "'";
+            end++;
+            continue;
+          }
+          break;
+        }
+        value += text[end];
+      }
+      pos = end + 1;
+      return value;
+    }
+    for (; ; end++) {
+      if (end >= text.length) {
+        fail('Unterminated quoted string');
+      }
+      if (text[end] === '\\') {
+        end++;
+      } else if (text[end] === '"') {
+        break;
+      }
+    }
+    const literal = text
+      .slice(pos, end + 1)
+      .replace(/\\x([0-9a-fA-F]{2})/g, '\\u00$1')
+      .replace(/\\([ /])/g, '$1');
+    pos = end + 1;
+    try {
+      return JSON.parse(literal) as string;
+    } catch {
+      return fail('Invalid escape in double-quoted string');
+    }
+  };
+
+  const plain = (terminators: RegExp | null): unknown => {
+    const start = pos;
+    while (pos < text.length && !terminators?.test(text[pos])) {
+      pos++;
+    }
+    return resolvePlain(text.slice(start, pos).trim());
+  };
+
+  const value = (inFlow: boolean): unknown => {
+    skipSpace();
+    const char = text[pos];
+    if (char === '[') {
+      pos++;
+      const items: unknown[] = [];
+      for (;;) {
+        skipSpace();
+        if (text[pos] === ']') {
+          pos++;
+          return items;
+        }
+        items.push(value(true));
+        skipSpace();
+        if (text[pos] === ',') {
+          pos++;
+        } else if (text[pos] !== ']') {
+          fail('Expected "," or "]" in flow sequence');
+        }
+      }
+    }
+    if (char === '{') {
+      pos++;
+      const obj: Record<string, unknown> = {};
+      for (;;) {
+        skipSpace();
+        if (text[pos] === '}') {
+          pos++;
+          return obj;
+        }
+        const key =
+          text[pos] === '"' || text[pos] === "'"
+            ? quoted()
+            : String(plain(/[:,}]/));
+        skipSpace();
+        if (text[pos] === ':') {
+          pos++;
+          obj[key] = value(true);
+        } else {
+          obj[key] = null;
+        }
+        skipSpace();
+        if (text[pos] === ',') {
+          pos++;
+        } else if (text[pos] !== '}') {
+          fail('Expected "," or "}" in flow mapping');
+        }
+      }
+    }
+    if (char === '"' || char === "'") {
+      return quoted();
+    }
+    if (char === '&' || char === '*' || char === '!') {
+      fail('Anchors, aliases and tags are not supported');
+    }
+    return plain(inFlow ? /[,\]}]/ : null);
+  };
+
+  const result = value(false);
+  skipSpace();
+  if (pos < text.length) {
+    fail(`Unexpected "${text.slice(pos)}"`);
+  }
+  return result;
+}
+
+/**
+ * Whether a flow collection's brackets are balanced
+ */
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+}
+
+/**
+ * Split `key: value` into its parts, or null if the line is not a mapping
+ * entry
+ */
+function splitKey(
+  content: string,
+  line: number
+): { key: string; rest: string } | null {
+  if (content.startsWith('"') || content.startsWith("'")) {
+    const quote = content[0];
+    let end = 1;
+    for (; end < content.length; end++) {
+      if (content[end] === '\\' && quote === '"') {
+        end++;
+      } else if (content[end] === quote) {
+        if (quote === "'" && content[end + 1] === "'") {
+          end++;
+          continue;
+        }
+        break;
+      }
+    }
+    const after = content.slice(end + 1);
+    if (!/^\s*:(\s|$)/.test(after)) {
+      return null;
+    }
+    return {
+      key: String(parseInline(content.slice(0, end + 1), line)),
+      rest: after.replace(/^\s*:/, '').trim(),
+    };
+  }
+  if (content.startsWith('[') || content.startsWith('{')) {
+    return null;
+  }
+  const match = /:(\s|$)/.exec(content);
+  if (!match) {
+    return null;
+  }
+  return {
+    key: content.slice(0, match.index).trim(),
+    rest: content.slice(match.index + 1).trim(),
+  };
+}
+
+/**
+ * Fold `>` block scalar lines: a single break between two plain lines
+ * becomes a space, and a run of blank lines between them stands for that
+ * many newlines. Breaks around more-indented lines are kept.
+ */
+function foldLines(lines: string[]): string {
+  let value = '';
+  let blanks = 0;
+  let previous: string | null = null;
+  for (const line of lines) {
+    if (line === '') {
+      blanks++;
+      continue;
+    }
+    if (previous === null) {
+      value += '\n'.repeat(blanks);
+    } else {
+      const plain = !/^\s/.test(previous) && !/^\s/.test(line);
+      value +=
+        blanks === 0 && plain ? ' ' : '\n'.repeat(plain ? blanks : blanks + 1);
+    }
+    value += line;
+    previous = line;
+    blanks = 0;
+  }
+  return value;
+}
+/**
+ * Parse a block-style YAML document into plain JSON values
+ */
+export function parseYaml(text: string): unknown {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  let pos = 0;
+
+  const skipIgnorable = () => {
+    while (pos < lines.length && isIgnorable(lines[pos])) {
+      pos++;
+    }
+  };
+
+  const fail = (message: string, index = pos): never => {
+    throw new YamlParseError(message, index + 1);
+  };
+
+  /**
+   * `|` and `>` block scalars; content lines are indented past parentIndent
+   */
+  const blockScalar = (header: string, parentIndent: number): string => {
+    const match = /^([|>])([-+]?)(\d?)([-+]?)$/.exec(header);
+    if (!match) {
+      return fail(`Invalid block scalar header "${header}"`, pos - 1);
+    }
+    const folded = match[1] === '>';
+    const chomp = match[2] || match[4];
+    const raw: string[] = [];
+    while (
+      pos < lines.length &&
+      (lines[pos].trim() === '' || indentOf(lines[pos]) > parentIndent)
+    ) {
+      raw.push(lines[pos]);
+      pos++;
+    }
+    const contentIndent = match[3]
+      ? parentIndent + Number(match[3])
+      : Math.min(
+          ...raw.filter(l => l.trim() !== '').map(indentOf),
+          Number.MAX_SAFE_INTEGER
+        );
+    const body = raw.map(l => l.slice(contentIndent));
+    let trailing = 0;
+    while (body.length > 0 && body[body.length - 1].trim() === '') {
+      body.pop();
+      trailing++;
+    }
+    let value = folded ? foldLines(body) : body.join('\n');
+    if (body.length > 0 && chomp !== '-') {
+      value += '\n';
+    }
+    if (chomp === '+') {
+      value += '\n'.repeat(trailing);
+    }
+    return value;
+  };
+
+  /**
+   * A value written after `key:` or `- ` on the same line
+   */
+  const inlineValue = (rest: string, indent: number): unknown => {
+    const line = pos - 1;
+    if (/^[|>]/.test(rest)) {
+      return blockScalar(rest, indent);
+    }
+    if (rest.startsWith('[') || rest.startsWith('{')) {
+      let flow = rest;
+      while (!isBalanced(flow) && pos < lines.length) {
+        flow += ` ${stripComment(lines[pos]).trim()}`;
+        pos++;
+      }
+      return parseInline(flow, line + 1);
+    }
+    if (rest.startsWith('"') || rest.startsWith("'")) {
+      return parseInline(rest, line + 1);
+    }
+    // Plain scalars may continue on more-indented lines
+    let value = rest;
+    while (
+      pos < lines.length &&
+      !isIgnorable(lines[pos]) &&
+      indentOf(lines[pos]) > indent
+    ) {
+      value += ` ${stripComment(lines[pos]).trim()}`;
+      pos++;
+    }
+    return parseInline(value, line + 1);
+  };
+
+  const sequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    for (;;) {
+      skipIgnorable();
+      if (pos >= lines.length || indentOf(lines[pos]) !== indent) {
+        return items;
+      }
+      const content = stripComment(lines[pos].slice(indent));
+      if (!isSequenceItem(content)) {
+        return items;
+      }
+      const rest = content.slice(1).trimStart();
+      if (rest === '') {
+        pos++;
+        items.push(node(indent + 1));
+        continue;
+      }
+      // Blank out the dash so the item parses as a node at its own column
+      const column = indent + content.length - rest.length;
+      lines[pos] = ' '.repeat(column) + lines[pos].slice(column);
+      items.push(node(column));
+    }
+  };
+
+  const mapping = (indent: number): Record<string, unknown> => {
+    const obj: Record<string, unknown> = {};
+    for (;;) {
+      skipIgnorable();
+      if (pos >= lines.length) {
+        return obj;
+      }
+      const lineIndent = indentOf(lines[pos]);
+      if (lineIndent < indent) {
+        return obj;
+      }
+      if (lineIndent > indent) {
+        fail('Unexpected indentation');
+      }
+      const content = stripComment(lines[pos].slice(indent));
+      if (isSequenceItem(content)) {
+        return obj;
+      }
+      const entry = splitKey(content, pos + 1);
+      if (!entry) {
+        fail('Expected a "key: value" entry');
+      }
+      const { key, rest } = entry as { key: string; rest: string };
+      pos++;
+      if (rest !== '') {
+        obj[key] = inlineValue(rest, indent);
+        continue;
+      }
+      skipIgnorable();
+      if (pos >= lines.length) {
+        obj[key] = null;
+      } else if (indentOf(lines[pos]) > indent) {
+        obj[key] = node(indentOf(lines[pos]));
+      } else if (
+        indentOf(lines[pos]) === indent &&
+        isSequenceItem(stripComment(lines[pos].slice(indent)))
+      ) {
+        obj[key] = sequence(indent);
+      } else {
+        obj[key] = null;
+      }
+    }
+  };
+
+  /**
+   * The node starting at the next content line, if indented at least
+   * minIndent
+   */
+  const node = (minIndent: number): unknown => {
+    skipIgnorable();
+    if (pos >= lines.length || indentOf(lines[pos]) < minIndent) {
+      return null;
+    }
+    const indent = indentOf(lines[pos]);
+    const content = stripComment(lines[pos].slice(indent));
+    if (isSequenceItem(content)) {
+      return sequence(indent);
+    }
+    if (splitKey(content, pos + 1)) {
+      return mapping(indent);
+    }
+    pos++;
+    return inlineValue(content, indent - 1);
+  };
+
+  const result = node(0);
+  skipIgnorable();
+  if (pos < lines.length) {
+    fail('Unexpected content');
+  }
+  return result;
+}